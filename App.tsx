@@ -1,9 +1,18 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Header } from './components/Header';
 import { MainView } from './components/MainView';
 import { SettingsView } from './components/SettingsView';
+import { HistoryView } from './components/HistoryView';
+import { DeploymentsView } from './components/DeploymentsView';
 import { Notification, NotificationData } from './components/Notification';
-import type { Settings, VisibleButtons, ProfileVisibility } from './types';
+import type { Settings, VisibleButtons, ProfileVisibility, TransactionRecord, DeploymentRecord, AppView, ConfigSnapshot, ConfigImport } from './types';
+import { formatValidationIssues, validateSettings } from './utils/validation';
+import { getBackupKey, loadVersioned, migrateProfileVisibility, migrateSettings, serializeProfileVisibility, serializeSettings, toVersionedProfileVisibility, toVersionedSettings } from './utils/migrations';
+import { useUndoRedo } from './hooks/useUndoRedo';
+import { useChainsawActions } from './hooks/useChainsawActions';
+import { createConfigExport, hasShareFragment, parseShareFragment } from './utils/configTransfer';
+import { ImportPreviewModal } from './components/ImportPreviewModal';
+import { MergeReviewModal } from './components/MergeReviewModal';
 
 import { createWeb3Modal } from "@web3modal/wagmi/react";
 import { defaultWagmiConfig } from "@web3modal/wagmi/react/config";
@@ -86,10 +95,16 @@ createWeb3Modal({
 const queryClient = new QueryClient();
 
 const PROFILE_NAMES = ['Profile 1', 'Profile 2', 'Profile 3', 'Profile 4'];
+const MAX_HISTORY_ENTRIES = 500;
+const MAX_UNDO_STEPS = 50;
+
+// What undo and redo restore. Visibility is included so buttons brought back by
+// an undo keep the visibility they had in every profile.
+type ConfigState = { settings: Settings; profileVisibility: ProfileVisibility };
 
 const AppContent: React.FC = () => {
   const { isConnected } = useAccount();
-  const [view, setView] = useState<'main' | 'settings'>('main');
+  const [view, setView] = useState<AppView>('main');
   const [settings, setSettings] = useState<Settings>({});
   const [notification, setNotification] = useState<NotificationData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -97,6 +112,13 @@ const AppContent: React.FC = () => {
   // Profile state management
   const [activeProfile, setActiveProfile] = useState<string>(PROFILE_NAMES[0]);
   const [profileVisibility, setProfileVisibility] = useState<ProfileVisibility>({});
+  const [history, setHistory] = useState<TransactionRecord[]>([]);
+  const [deployments, setDeployments] = useState<DeploymentRecord[]>([]);
+  const [snapshots, setSnapshots] = useState<ConfigSnapshot[]>([]);
+  const [pendingImport, setPendingImport] = useState<ConfigImport | null>(null);
+  // Set while an import is in the merge review, to whether the imported visibility should be applied.
+  const [importMergeVisibility, setImportMergeVisibility] = useState<boolean | null>(null);
+  const { record: recordConfigChange, undo: undoConfigChange, redo: redoConfigChange, canUndo, canRedo } = useUndoRedo<ConfigState>(MAX_UNDO_STEPS);
 
   const showNotification = useCallback((message: string, type: NotificationData['type'], duration: number = 5000) => {
     setNotification({ message, type });
@@ -115,6 +137,10 @@ const AppContent: React.FC = () => {
     const newKeys = Object.keys(newSettings);
     const addedKeys = newKeys.filter(k => !oldKeys.includes(k));
 
+    // The initial load is not an undoable change.
+    if (!isLoading) {
+      recordConfigChange({ settings, profileVisibility });
+    }
     setSettings(newSettings);
     
     // When settings change, update visibility for all profiles.
@@ -140,7 +166,163 @@ const AppContent: React.FC = () => {
       }
       return newProfiles;
     });
-  }, [settings, activeProfile]);
+  }, [settings, profileVisibility, activeProfile, isLoading, recordConfigChange]);
+
+  const applyConfigState = useCallback((state: ConfigState) => {
+    setSettings(state.settings);
+    setProfileVisibility(state.profileVisibility);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    const previous = undoConfigChange({ settings, profileVisibility });
+    if (!previous) {
+      showNotification('Nothing to undo.', 'info');
+      return;
+    }
+    applyConfigState(previous);
+    showNotification('Configuration change undone.', 'info');
+  }, [settings, profileVisibility, undoConfigChange, applyConfigState, showNotification]);
+
+  const handleRedo = useCallback(() => {
+    const next = redoConfigChange({ settings, profileVisibility });
+    if (!next) {
+      showNotification('Nothing to redo.', 'info');
+      return;
+    }
+    applyConfigState(next);
+    showNotification('Configuration change redone.', 'info');
+  }, [settings, profileVisibility, redoConfigChange, applyConfigState, showNotification]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Text fields, like the JSON editor, keep their own undo.
+      const target = event.target;
+      if (target instanceof HTMLElement && target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleCreateSnapshot = useCallback((name: string) => {
+    const snapshot: ConfigSnapshot = {
+      name,
+      timestamp: Date.now(),
+      settings: toVersionedSettings(settings),
+      profileVisibility: toVersionedProfileVisibility(profileVisibility),
+    };
+    // Taking a snapshot with an existing name replaces it.
+    setSnapshots(prev => [snapshot, ...prev.filter(s => s.name !== name)]);
+    showNotification(`Snapshot "${name}" saved.`, 'success');
+  }, [settings, profileVisibility, showNotification]);
+
+  const handleRestoreSnapshot = useCallback((snapshot: ConfigSnapshot) => {
+    try {
+      const restored: ConfigState = {
+        settings: migrateSettings(snapshot.settings),
+        profileVisibility: migrateProfileVisibility(snapshot.profileVisibility),
+      };
+      recordConfigChange({ settings, profileVisibility });
+      applyConfigState(restored);
+      showNotification(`Snapshot "${snapshot.name}" restored. Press Ctrl+Z to undo.`, 'success');
+    } catch (error: any) {
+      console.error(error);
+      showNotification(`Failed to restore snapshot: ${error.message}`, 'error');
+    }
+  }, [settings, profileVisibility, recordConfigChange, applyConfigState, showNotification]);
+
+  const handleDeleteSnapshot = useCallback((snapshot: ConfigSnapshot) => {
+    setSnapshots(prev => prev.filter(s => s !== snapshot));
+  }, []);
+
+  const handleExportConfig = useCallback(() => {
+    const blob = new Blob([createConfigExport(settings, profileVisibility, activeProfile)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `chainsaw-config-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [settings, profileVisibility, activeProfile]);
+
+  // Applies an import once its buttons are decided: all of them for 'replace',
+  // or the outcome of the merge review.
+  const completeImport = useCallback((newSettings: Settings, applyVisibility: boolean) => {
+    if (!pendingImport) return;
+    const addedCount = Object.keys(newSettings).filter(key => !(key in settings)).length;
+    const updatedCount = Object.keys(settings).filter(key => key in newSettings && newSettings[key] !== settings[key]).length;
+    handleSettingsChange(newSettings);
+
+    const importedVisibility = pendingImport.profileVisibility;
+    if (applyVisibility && importedVisibility) {
+      // Only buttons that were actually taken from the import get the shared visibility.
+      const importedKeys = Object.keys(pendingImport.settings).filter(key => newSettings[key] === pendingImport.settings[key]);
+      setProfileVisibility(prev => {
+        const next = { ...prev };
+        Object.entries(importedVisibility).forEach(([profileName, visibility]) => {
+          if (!PROFILE_NAMES.includes(profileName)) return;
+          const profile = { ...(next[profileName] || {}) };
+          importedKeys.forEach(key => {
+            if (key in visibility) profile[key] = visibility[key];
+          });
+          next[profileName] = profile;
+        });
+        return next;
+      });
+      if (pendingImport.activeProfile && PROFILE_NAMES.includes(pendingImport.activeProfile)) {
+        setActiveProfile(pendingImport.activeProfile);
+      }
+    }
+
+    setPendingImport(null);
+    setImportMergeVisibility(null);
+    if (newSettings === pendingImport.settings) {
+      showNotification('Configuration imported. Press Ctrl+Z to undo.', 'success');
+    } else if (addedCount > 0 || updatedCount > 0) {
+      showNotification(`Imported ${addedCount} new and ${updatedCount} updated button(s). Press Ctrl+Z to undo.`, 'success');
+    } else {
+      showNotification('No buttons were imported. Your configuration is unchanged.', 'info');
+    }
+  }, [pendingImport, settings, handleSettingsChange, showNotification]);
+
+  // 'replace' applies right away; 'merge' first goes through the per-button merge review.
+  const handleApplyImport = useCallback((mode: 'replace' | 'merge', applyVisibility: boolean) => {
+    if (!pendingImport) return;
+    if (mode === 'replace') {
+      completeImport(pendingImport.settings, applyVisibility);
+    } else {
+      setImportMergeVisibility(applyVisibility);
+    }
+  }, [pendingImport, completeImport]);
+
+  // Opens the import preview for a share link, on load or when a link is opened in a running tab.
+  useEffect(() => {
+    if (isLoading) return;
+    const handleHash = async () => {
+      const hash = window.location.hash;
+      if (!hasShareFragment(hash)) return;
+      // The fragment is removed so a reload does not offer the same import again.
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      try {
+        setPendingImport(await parseShareFragment(hash));
+      } catch (error: any) {
+        console.error("Failed to read shared configuration:", error);
+        showNotification(`The shared link could not be read: ${error.message}`, 'error', 8000);
+      }
+    };
+    handleHash();
+    window.addEventListener('hashchange', handleHash);
+    return () => window.removeEventListener('hashchange', handleHash);
+  }, [isLoading, showNotification]);
 
   const handleSaveProfile = useCallback((profileName: string, newVisibility: VisibleButtons) => {
     setProfileVisibility(prev => ({
@@ -151,6 +333,48 @@ const AppContent: React.FC = () => {
   }, [showNotification]);
 
 
+  // Inserts a new transaction or updates an existing one (matched by hash).
+  const handleTransactionUpdate = useCallback((record: TransactionRecord) => {
+    setHistory(prev => {
+      const index = prev.findIndex(tx => tx.hash === record.hash);
+      if (index === -1) {
+        return [record, ...prev].slice(0, MAX_HISTORY_ENTRIES);
+      }
+      const newHistory = [...prev];
+      newHistory[index] = record;
+      return newHistory;
+    });
+  }, []);
+
+  const handleClearHistory = useCallback(() => {
+    setHistory([]);
+    showNotification('Transaction history cleared.', 'success');
+  }, [showNotification]);
+
+  const handleDeployment = useCallback((deployment: DeploymentRecord) => {
+    setDeployments(prev => [
+      deployment,
+      ...prev.filter(d => !(d.chainId === deployment.chainId && d.address.toLowerCase() === deployment.address.toLowerCase())),
+    ]);
+  }, []);
+
+  // Entries still pending from the last session are no longer watched by anyone;
+  // each is checked once, so later calls skip the hashes already resumed.
+  const { resumeTracking } = useChainsawActions(showNotification, handleTransactionUpdate, handleDeployment);
+  const resumedHashes = useRef(new Set<string>());
+  const resumePendingTransactions = useCallback((records: TransactionRecord[], currentSettings: Settings) => {
+    records
+      .filter(record => record.status === 'pending' && !resumedHashes.current.has(record.hash))
+      .forEach(record => {
+        resumedHashes.current.add(record.hash);
+        resumeTracking(record, record.buttonKey ? currentSettings[record.buttonKey] : undefined);
+      });
+  }, [resumeTracking]);
+
+  const handleRemoveDeployment = useCallback((deployment: DeploymentRecord) => {
+    setDeployments(prev => prev.filter(d => d !== deployment));
+  }, []);
+
   const handleReorder = (draggedKey: string, dropKey: string) => {
     const keys = Object.keys(settings);
     const draggedIndex = keys.indexOf(draggedKey);
@@ -165,6 +389,7 @@ const AppContent: React.FC = () => {
     keys.forEach(key => {
         newSettings[key] = settings[key];
     });
+    recordConfigChange({ settings, profileVisibility });
     setSettings(newSettings);
   };
 
@@ -175,7 +400,7 @@ const AppContent: React.FC = () => {
     try {
       const response = await fetch('https://raw.githubusercontent.com/StanleyMorgan/Chainsaw-config/main/presets/default.json');
       if (!response.ok) throw new Error(`Network response was not ok: ${response.statusText}`);
-      const defaultSettings = await response.json();
+      const defaultSettings = migrateSettings(await response.json());
       handleSettingsChange(defaultSettings);
     } catch (error) {
       console.error("Failed to fetch or apply default settings:", error);
@@ -188,27 +413,73 @@ const AppContent: React.FC = () => {
   useEffect(() => {
     const loadState = async () => {
         setIsLoading(true);
+        let loadedHistory: TransactionRecord[] = [];
+        // The loaded buttons, used to decode the events of resumed transactions.
+        let buttonSettings: Settings = {};
+        try {
+            const savedHistory = localStorage.getItem('chainsawHistory');
+            if (savedHistory) {
+                loadedHistory = JSON.parse(savedHistory);
+                setHistory(loadedHistory);
+            }
+        } catch (error) {
+            // A corrupt history must not prevent the settings from loading.
+            console.error("Failed to load transaction history.", error);
+        }
         try {
-            const savedSettings = localStorage.getItem('chainsawSettings');
-            let loadedSettings: Settings = {};
+            const savedDeployments = localStorage.getItem('chainsawDeployments');
+            if (savedDeployments) {
+                setDeployments(JSON.parse(savedDeployments));
+            }
+        } catch (error) {
+            console.error("Failed to load deployments.", error);
+        }
+        try {
+            const savedSnapshots = localStorage.getItem('chainsawSnapshots');
+            if (savedSnapshots) {
+                setSnapshots(JSON.parse(savedSnapshots));
+            }
+        } catch (error) {
+            console.error("Failed to load snapshots.", error);
+        }
+        try {
+            // A failed migration keeps the saved data as a backup instead of dropping it silently.
+            let loadedSettings: Settings | null = null;
+            try {
+                loadedSettings = loadVersioned('chainsawSettings', migrateSettings);
+            } catch (error: any) {
+                console.error("Failed to load saved settings, loading the default.", error);
+                showNotification(`Saved settings could not be loaded: ${error.message} They were backed up to "${getBackupKey('chainsawSettings')}".`, 'error', 10000);
+            }
 
-            if (savedSettings && savedSettings !== '{}') {
-                loadedSettings = JSON.parse(savedSettings);
-                setSettings(loadedSettings);
-            } else {
+            if (!loadedSettings || Object.keys(loadedSettings).length === 0) {
                 // Fetch default settings and wait for it to complete
                 const response = await fetch('https://raw.githubusercontent.com/StanleyMorgan/Chainsaw-config/main/presets/default.json');
                 if (!response.ok) throw new Error('Failed to fetch default settings');
-                loadedSettings = await response.json();
-                setSettings(loadedSettings);
+                loadedSettings = migrateSettings(await response.json());
+            }
+            setSettings(loadedSettings);
+            buttonSettings = loadedSettings;
+
+            // Invalid buttons are kept so nothing is lost, but reported now rather than when clicked.
+            const issues = validateSettings(loadedSettings);
+            if (issues.length > 0) {
+                console.warn('Loaded settings have invalid buttons:', issues);
+                showNotification(`Some buttons are misconfigured: ${formatValidationIssues(issues)}`, 'error', 10000);
             }
 
             const savedActiveProfile = localStorage.getItem('chainsawActiveProfile');
             setActiveProfile(savedActiveProfile || PROFILE_NAMES[0]);
 
-            const savedProfileVisibility = localStorage.getItem('chainsawProfileVisibility');
+            let savedProfileVisibility: ProfileVisibility | null = null;
+            try {
+                savedProfileVisibility = loadVersioned('chainsawProfileVisibility', migrateProfileVisibility);
+            } catch (error: any) {
+                console.error("Failed to load profile visibility, resetting it.", error);
+                showNotification(`Profile visibility could not be loaded: ${error.message} It was backed up to "${getBackupKey('chainsawProfileVisibility')}".`, 'error', 10000);
+            }
             if (savedProfileVisibility) {
-                setProfileVisibility(JSON.parse(savedProfileVisibility));
+                setProfileVisibility(savedProfileVisibility);
             } else {
                 // Initialize profiles if they don't exist
                 const initialProfiles: ProfileVisibility = {};
@@ -229,13 +500,14 @@ const AppContent: React.FC = () => {
         } finally {
             setIsLoading(false);
         }
+        resumePendingTransactions(loadedHistory, buttonSettings);
     };
     loadState();
   }, []); // Only run on initial mount
 
   useEffect(() => {
     if (!isLoading && Object.keys(settings).length > 0) {
-      localStorage.setItem('chainsawSettings', JSON.stringify(settings));
+      localStorage.setItem('chainsawSettings', serializeSettings(settings));
     }
   }, [settings, isLoading]);
 
@@ -247,10 +519,28 @@ const AppContent: React.FC = () => {
 
   useEffect(() => {
     if (!isLoading && Object.keys(profileVisibility).length > 0) {
-      localStorage.setItem('chainsawProfileVisibility', JSON.stringify(profileVisibility));
+      localStorage.setItem('chainsawProfileVisibility', serializeProfileVisibility(profileVisibility));
     }
   }, [profileVisibility, isLoading]);
 
+  useEffect(() => {
+    if (!isLoading) {
+      localStorage.setItem('chainsawHistory', JSON.stringify(history));
+    }
+  }, [history, isLoading]);
+
+  useEffect(() => {
+    if (!isLoading) {
+      localStorage.setItem('chainsawDeployments', JSON.stringify(deployments));
+    }
+  }, [deployments, isLoading]);
+
+  useEffect(() => {
+    if (!isLoading) {
+      localStorage.setItem('chainsawSnapshots', JSON.stringify(snapshots));
+    }
+  }, [snapshots, isLoading]);
+
 
   if (isLoading) {
     return (
@@ -280,6 +570,8 @@ const AppContent: React.FC = () => {
             activeProfile={activeProfile}
             setActiveProfile={setActiveProfile}
             profileNames={PROFILE_NAMES}
+            onTransactionUpdate={handleTransactionUpdate}
+            onDeployment={handleDeployment}
           />
         )}
         {view === 'settings' && isConnected && (
@@ -292,9 +584,54 @@ const AppContent: React.FC = () => {
             setActiveProfile={setActiveProfile}
             profileNames={PROFILE_NAMES}
             onSaveProfile={handleSaveProfile}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            snapshots={snapshots}
+            onCreateSnapshot={handleCreateSnapshot}
+            onRestoreSnapshot={handleRestoreSnapshot}
+            onDeleteSnapshot={handleDeleteSnapshot}
+            onExportConfig={handleExportConfig}
+            onImportConfig={setPendingImport}
+          />
+        )}
+        {view === 'history' && (
+          <HistoryView
+            history={history}
+            settings={settings}
+            showNotification={showNotification}
+            onTransactionUpdate={handleTransactionUpdate}
+            onClearHistory={handleClearHistory}
+            onDeployment={handleDeployment}
+          />
+        )}
+        {view === 'deployments' && (
+          <DeploymentsView
+            deployments={deployments}
+            settings={settings}
+            setSettings={handleSettingsChange}
+            showNotification={showNotification}
+            onRemoveDeployment={handleRemoveDeployment}
           />
         )}
       </main>
+      {pendingImport && (importMergeVisibility !== null ? (
+        <MergeReviewModal
+          source={pendingImport.source}
+          settings={settings}
+          incoming={pendingImport.settings}
+          onApply={(merged) => completeImport(merged, importMergeVisibility)}
+          onCancel={() => setImportMergeVisibility(null)}
+        />
+      ) : (
+        <ImportPreviewModal
+          pendingImport={pendingImport}
+          settings={settings}
+          onApply={handleApplyImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      ))}
       <Notification notification={notification} setNotification={setNotification} />
     </div>
   );
@@ -1,22 +1,32 @@
 import React from 'react';
 import type { Settings, ButtonConfig } from '../types';
+import type { LiveValue } from '../hooks/useLiveReads';
 
 interface ActionButtonProps {
     buttonKey: string;
     config: ButtonConfig;
+    liveValue?: LiveValue;
     onClick: () => void;
 }
 
-const ActionButton: React.FC<ActionButtonProps> = ({ buttonKey, config, onClick }) => {
+const ActionButton: React.FC<ActionButtonProps> = ({ buttonKey, config, liveValue, onClick }) => {
     const buttonColor = config.color === '$color' ? '#6B7281' : config.color; // Использовать нейтрально-серый для плейсхолдера
 
     return (
         <button
             onClick={onClick}
             style={{ backgroundColor: buttonColor, color: '#FFFFFF' }}
-            className="w-full text-white font-bold py-4 px-4 rounded-lg shadow-lg transform hover:scale-105 transition-transform duration-200 flex items-center justify-center"
+            className="w-full text-white font-bold py-4 px-4 rounded-lg shadow-lg transform hover:scale-105 transition-transform duration-200 flex flex-col items-center justify-center"
         >
             <span className="capitalize">{buttonKey}</span>
+            {liveValue && (
+                <span
+                    className="mt-1 max-w-full truncate rounded-full bg-black bg-opacity-30 px-2 py-0.5 font-mono text-xs font-normal"
+                    title={liveValue.error ?? liveValue.text}
+                >
+                    {liveValue.text}
+                </span>
+            )}
         </button>
     );
 };
@@ -24,8 +34,9 @@ const ActionButton: React.FC<ActionButtonProps> = ({ buttonKey, config, onClick
 interface ActionGridProps {
   visibleButtonKeys: string[];
   settings: Settings;
+  liveValues?: Record<string, LiveValue>;
   onButtonClick: (key: string, config: ButtonConfig) => void;
-  onButtonHoverStart: (description: string) => void;
+  onButtonHoverStart: (key: string, config: ButtonConfig) => void;
   onButtonHoverEnd: () => void;
   dragAndDropHandlers: {
     handleDragStart: (e: React.DragEvent<HTMLDivElement>, key: string) => void;
@@ -38,6 +49,7 @@ interface ActionGridProps {
 export const ActionGrid: React.FC<ActionGridProps> = ({
   visibleButtonKeys,
   settings,
+  liveValues = {},
   onButtonClick,
   onButtonHoverStart,
   onButtonHoverEnd,
@@ -58,7 +70,7 @@ export const ActionGrid: React.FC<ActionGridProps> = ({
               onDragOver={dragAndDropHandlers.handleDragOver}
               onDrop={(e) => dragAndDropHandlers.handleDrop(e, key)}
               onDragEnd={dragAndDropHandlers.handleDragEnd}
-              onMouseEnter={() => onButtonHoverStart(config.description || 'No description provided.')}
+              onMouseEnter={() => onButtonHoverStart(key, config)}
               onMouseLeave={onButtonHoverEnd}
               className="cursor-move"
               title={config.description || key}
@@ -66,6 +78,7 @@ export const ActionGrid: React.FC<ActionGridProps> = ({
               <ActionButton
                 buttonKey={key}
                 config={config}
+                liveValue={liveValues[key]}
                 onClick={() => onButtonClick(key, config)}
               />
             </div>
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import type { NotificationData } from './Notification';
 import type { Settings } from '../types';
+import { formatValidationIssues, validateButtonConfig } from '../utils/validation';
 
 interface AddButtonModalProps {
   isOpen: boolean;
@@ -101,41 +102,9 @@ export const AddButtonModal: React.FC<AddButtonModalProps> = ({ isOpen, onClose,
           throw new Error('The button configuration under the key must be an object.');
       }
 
-      const requiredKeys = ['address', 'color', 'id', 'value'];
-      for (const key of requiredKeys) {
-        if (!(key in config)) {
-          throw new Error(`Missing required key in JSON: "${key}"`);
-        }
-      }
-      
-      const hasRawData = 'data' in config && typeof config.data === 'string';
-      const hasAbiData = 'abi' in config;
-
-      if (!hasRawData && !hasAbiData) {
-          throw new Error('Configuration must include either "data" or "abi".');
-      }
-
-      if (hasAbiData) {
-          if (!Array.isArray(config.abi)) {
-              throw new Error('"abi" must be an array.');
-          }
-          
-          const isDeploy = config.address === "";
-
-          // The ABI must have functions only if it's a function call (not a deploy)
-          if (!isDeploy) {
-              const functionsInAbi = config.abi.filter((item: any) => item.type === 'function');
-              if (functionsInAbi.length === 0) {
-                  throw new Error('The provided ABI contains no functions.');
-              }
-              if (functionsInAbi.length > 1 && !config.functionName) {
-                  throw new Error('The ABI has multiple functions. Please specify which to call using "functionName".');
-              }
-          }
-          
-          if (config.args && !Array.isArray(config.args)) {
-              throw new Error('"args" must be an array.');
-          }
+      const issues = validateButtonConfig(buttonKey, config);
+      if (issues.length > 0) {
+        throw new Error(formatValidationIssues(issues));
       }
 
       onSave(buttonKey, config);
@@ -0,0 +1,57 @@
+import React from 'react';
+import { formatUnits } from 'viem';
+import type { ApprovalChoice, ApprovalRequest } from '../types';
+import { getChainName } from '../utils/chains';
+import { DetailRow } from './DetailRow';
+
+interface ApprovalModalProps {
+  request: ApprovalRequest | null;
+  onChoose: (choice: ApprovalChoice | null) => void;
+}
+
+export const ApprovalModal: React.FC<ApprovalModalProps> = ({ request, onChoose }) => {
+  if (!request) return null;
+
+  const format = (amount: string) => `${formatUnits(BigInt(amount), request.decimals)} ${request.symbol}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-lg p-6 space-y-4 border border-gray-700">
+        <h2 className="text-2xl font-bold text-blue-400">Approve {request.symbol}</h2>
+        <p className="text-gray-300 text-sm">
+          This action needs permission to spend your {request.symbol}. Approve it first, then the original transaction continues.
+        </p>
+
+        <div className="space-y-2 p-3 bg-gray-900 rounded-md border border-gray-700">
+          <DetailRow label="Network">{getChainName(request.chainId)}</DetailRow>
+          <DetailRow label="Token">{request.token}</DetailRow>
+          <DetailRow label="Spender">{request.spender}</DetailRow>
+          <DetailRow label="Required">{format(request.amount)}</DetailRow>
+          <DetailRow label="Current allowance">{format(request.allowance)}</DetailRow>
+        </div>
+
+        <div className="flex justify-end gap-4 pt-2">
+          <button
+            onClick={() => onChoose(null)}
+            className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onChoose('unlimited')}
+            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
+            title="Approve the maximum amount so future transactions skip this step"
+          >
+            Approve Unlimited
+          </button>
+          <button
+            onClick={() => onChoose('exact')}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+          >
+            Approve {format(request.amount)}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
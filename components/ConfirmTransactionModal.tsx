@@ -0,0 +1,85 @@
+import React from 'react';
+import { formatGwei, formatUnits } from 'viem';
+import type { TransactionPreview } from '../types';
+import { getChainName } from '../utils/chains';
+import { DecodedCallView } from './DecodedCallView';
+import { DetailRow } from './DetailRow';
+
+interface ConfirmTransactionModalProps {
+  preview: TransactionPreview | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const ConfirmTransactionModal: React.FC<ConfirmTransactionModalProps> = ({ preview, onConfirm, onCancel }) => {
+  if (!preview) return null;
+
+  const formatNative = (amount: string) => formatUnits(BigInt(amount), preview.nativeDecimals);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-lg p-6 space-y-4 border border-gray-700">
+        <h2 className="text-2xl font-bold text-blue-400 font-mono">
+          {preview.calls ? `Batch of ${preview.calls.length} calls` : preview.functionName || preview.decodedCall?.functionName || (preview.to && !preview.predictedAddress ? 'Send Transaction' : 'Deploy Contract')}
+        </h2>
+
+        <div className="space-y-2 p-3 bg-gray-900 rounded-md border border-gray-700">
+          <DetailRow label="Network">{getChainName(preview.chainId)}</DetailRow>
+          {!preview.calls && <DetailRow label="To">{preview.to || 'New contract'}</DetailRow>}
+          {preview.predictedAddress && <DetailRow label="Deploys to (CREATE2)">{preview.predictedAddress}</DetailRow>}
+          <DetailRow label={preview.calls ? 'Total value' : 'Value'}>{formatNative(preview.value)} {preview.nativeSymbol}</DetailRow>
+        </div>
+
+        {preview.decodedCall && (
+          <div className="p-3 bg-gray-900 rounded-md border border-gray-700 max-h-48 overflow-y-auto">
+            <DecodedCallView call={preview.decodedCall} />
+          </div>
+        )}
+
+        {preview.calls && (
+          <ol className="space-y-2 p-3 bg-gray-900 rounded-md border border-gray-700 max-h-48 overflow-y-auto">
+            {preview.calls.map((batchCall, index) => (
+              <li key={index} className="text-sm">
+                <DetailRow label={`${index + 1}. ${batchCall.functionName || 'Call'}`}>{batchCall.to}</DetailRow>
+                {BigInt(batchCall.value) > 0n && (
+                  <DetailRow label="Value">{formatNative(batchCall.value)} {preview.nativeSymbol}</DetailRow>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="space-y-2 p-3 bg-gray-900 rounded-md border border-gray-700">
+          <DetailRow label="Type">{preview.txType === 'legacy' ? 'Legacy' : 'EIP-1559'}</DetailRow>
+          <DetailRow label="Gas limit">{preview.gas ?? 'Set by wallet'}</DetailRow>
+          {preview.txType === 'legacy' ? (
+            <DetailRow label="Gas price">{preview.gasPrice ? `${formatGwei(BigInt(preview.gasPrice))} gwei` : 'Set by wallet'}</DetailRow>
+          ) : (
+            <>
+              <DetailRow label="Max fee">{preview.maxFeePerGas ? `${formatGwei(BigInt(preview.maxFeePerGas))} gwei` : 'Set by wallet'}</DetailRow>
+              <DetailRow label="Priority fee">{preview.maxPriorityFeePerGas ? `${formatGwei(BigInt(preview.maxPriorityFeePerGas))} gwei` : 'Set by wallet'}</DetailRow>
+            </>
+          )}
+          <DetailRow label="Max network fee">
+            {preview.estimatedFee ? `${formatNative(preview.estimatedFee)} ${preview.nativeSymbol}` : 'Unavailable'}
+          </DetailRow>
+        </div>
+
+        <div className="flex justify-end gap-4 pt-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+          >
+            Confirm
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
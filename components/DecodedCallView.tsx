@@ -0,0 +1,26 @@
+import React from 'react';
+import type { DecodedCall } from '../types';
+
+interface DecodedCallViewProps {
+  call: DecodedCall;
+}
+
+const formatArg = (value: any) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+// Shows the function and arguments encoded in a button's calldata.
+export const DecodedCallView: React.FC<DecodedCallViewProps> = ({ call }) => (
+  <div className="space-y-1 text-xs">
+    <div className="flex justify-between gap-2">
+      <span className="text-gray-200 font-mono font-semibold break-all">{call.signature}</span>
+      <span className="text-gray-500 flex-shrink-0">{call.source === 'abi' ? 'from ABI' : 'known signature'}</span>
+    </div>
+    {call.args.map((arg, index) => (
+      <div key={index} className="flex justify-between gap-2 font-mono">
+        <span className="text-gray-400 flex-shrink-0">
+          {arg.name} <span className="text-gray-600">{arg.type}</span>
+        </span>
+        <span className="text-gray-300 break-all text-right">{formatArg(arg.value)}</span>
+      </div>
+    ))}
+  </div>
+);
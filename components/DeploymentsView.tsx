@@ -0,0 +1,119 @@
+import React from 'react';
+import type { DeploymentRecord, Settings } from '../types';
+import type { NotificationData } from './Notification';
+import { getChainName, getExplorerAddressUrl, getExplorerTxUrl } from '../utils/chains';
+import { createButtonsForDeployment } from '../utils/deployments';
+import { ExternalLinkIcon } from './icons';
+
+interface DeploymentsViewProps {
+  deployments: DeploymentRecord[];
+  settings: Settings;
+  setSettings: (settings: Settings) => void;
+  showNotification: (message: string, type: NotificationData['type'], duration?: number) => void;
+  onRemoveDeployment: (deployment: DeploymentRecord) => void;
+}
+
+const shorten = (value: string) => `${value.slice(0, 8)}...${value.slice(-6)}`;
+
+const countFunctions = (deployment: DeploymentRecord) =>
+  ((deployment.abi || []) as readonly { type?: string }[]).filter(item => item.type === 'function').length;
+
+export const DeploymentsView: React.FC<DeploymentsViewProps> = ({
+  deployments,
+  settings,
+  setSettings,
+  showNotification,
+  onRemoveDeployment
+}) => {
+  const handleCreateButtons = (deployment: DeploymentRecord) => {
+    const buttons = createButtonsForDeployment(deployment, settings);
+    const keys = Object.keys(buttons);
+    if (keys.length === 0) {
+      showNotification('The deploy button has no ABI functions to create buttons from.', 'info');
+      return;
+    }
+    setSettings({ ...settings, ...buttons });
+    showNotification(`Added ${keys.length} button(s) to the active profile: ${keys.join(', ')}`, 'success', 8000);
+  };
+
+  return (
+    <div className="space-y-8 max-w-6xl mx-auto">
+      <div>
+        <h2 className="text-2xl font-bold mb-4">My Deployments</h2>
+
+        <div className="bg-gray-800 rounded-lg overflow-x-auto">
+          {deployments.length > 0 ? (
+            <table className="w-full text-sm text-left">
+              <thead className="text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="p-3">Time</th>
+                  <th className="p-3">Button</th>
+                  <th className="p-3">Chain</th>
+                  <th className="p-3">Address</th>
+                  <th className="p-3">Bytecode Hash</th>
+                  <th className="p-3">Constructor Args</th>
+                  <th className="p-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {deployments.map(deployment => {
+                  const addressUrl = getExplorerAddressUrl(deployment.chainId, deployment.address);
+                  const txUrl = getExplorerTxUrl(deployment.chainId, deployment.txHash);
+                  return (
+                    <tr key={`${deployment.chainId}:${deployment.address}`} className="border-b border-gray-700 last:border-0 hover:bg-gray-700/50">
+                      <td className="p-3 text-gray-300 whitespace-nowrap">
+                        {txUrl ? (
+                          <a href={txUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300" title="Deployment transaction">
+                            {new Date(deployment.timestamp).toLocaleString()}
+                          </a>
+                        ) : new Date(deployment.timestamp).toLocaleString()}
+                      </td>
+                      <td className="p-3 text-gray-200 capitalize">{deployment.buttonKey || '—'}</td>
+                      <td className="p-3 text-gray-300">{getChainName(deployment.chainId)}</td>
+                      <td className="p-3 font-mono">
+                        {addressUrl ? (
+                          <a href={addressUrl} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-400 hover:text-blue-300" title={deployment.address}>
+                            {shorten(deployment.address)}
+                            <ExternalLinkIcon className="w-3 h-3 ml-1" />
+                          </a>
+                        ) : (
+                          <span className="text-gray-300" title={deployment.address}>{shorten(deployment.address)}</span>
+                        )}
+                      </td>
+                      <td className="p-3 text-gray-300 font-mono" title={deployment.bytecodeHash}>
+                        {deployment.bytecodeHash ? shorten(deployment.bytecodeHash) : '—'}
+                      </td>
+                      <td className="p-3 text-gray-300 font-mono text-xs max-w-xs truncate" title={JSON.stringify(deployment.constructorArgs ?? [])}>
+                        {deployment.constructorArgs?.length ? JSON.stringify(deployment.constructorArgs) : '—'}
+                      </td>
+                      <td className="p-3">
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => handleCreateButtons(deployment)}
+                            disabled={countFunctions(deployment) === 0}
+                            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                            title={`Create ${countFunctions(deployment)} button(s) from the deploy button's ABI`}
+                          >
+                            Create Buttons
+                          </button>
+                          <button
+                            onClick={() => onRemoveDeployment(deployment)}
+                            className="px-3 py-1 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-gray-400 text-center p-8">No deployments recorded yet. Contracts deployed from a button appear here once mined.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,9 @@
+import React from 'react';
+
+// A label and its value on one line, as listed in the confirmation dialogs.
+export const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-4 text-sm">
+    <span className="text-gray-400 flex-shrink-0">{label}</span>
+    <span className="text-gray-200 font-mono text-right break-all">{children}</span>
+  </div>
+);
@@ -0,0 +1,30 @@
+import React from 'react';
+import type { DecodedEvent } from '../types';
+
+interface EventLogListProps {
+  events: DecodedEvent[];
+}
+
+const formatArg = (value: any) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+// Shows decoded receipt events with their named fields.
+export const EventLogList: React.FC<EventLogListProps> = ({ events }) => (
+  <ul className="space-y-1">
+    {events.map((event, index) => (
+      <li key={index} className="p-2 bg-gray-900 rounded-md text-xs">
+        <div className="flex justify-between gap-2">
+          <span className="text-gray-200 font-semibold">{event.name}</span>
+          <span className="text-gray-500 font-mono truncate" title={event.address}>
+            {event.address.slice(0, 6)}...{event.address.slice(-4)}
+          </span>
+        </div>
+        {Object.entries(event.args).map(([name, value]) => (
+          <div key={name} className="flex justify-between gap-2 font-mono">
+            <span className="text-gray-400">{name}</span>
+            <span className="text-gray-300 break-all text-right">{formatArg(value)}</span>
+          </div>
+        ))}
+      </li>
+    ))}
+  </ul>
+);
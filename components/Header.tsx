@@ -1,11 +1,12 @@
 import React from 'react';
 import { useAccount } from 'wagmi';
-import { HomeIcon, CogIcon } from './icons';
+import { HomeIcon, CogIcon, HistoryIcon, CubeIcon } from './icons';
 import { CustomConnectButton } from './CustomConnectButton';
+import type { AppView } from '../types';
 
 interface HeaderProps {
-  currentView: 'main' | 'settings';
-  setView: (view: 'main' | 'settings') => void;
+  currentView: AppView;
+  setView: (view: AppView) => void;
 }
 
 const NavButton: React.FC<{
@@ -52,6 +53,12 @@ export const Header: React.FC<HeaderProps> = ({ currentView, setView }) => {
           <NavButton label="Settings" isCurrent={currentView === 'settings'} onClick={() => setView('settings')} disabled={!isConnected}>
             <CogIcon />
           </NavButton>
+          <NavButton label="History" isCurrent={currentView === 'history'} onClick={() => setView('history')}>
+            <HistoryIcon />
+          </NavButton>
+          <NavButton label="Deployments" isCurrent={currentView === 'deployments'} onClick={() => setView('deployments')}>
+            <CubeIcon />
+          </NavButton>
         </nav>
       </div>
 
@@ -0,0 +1,273 @@
+import React, { useState, useMemo } from 'react';
+import { useAccount } from 'wagmi';
+import { formatUnits } from 'viem';
+import type { Settings, TransactionRecord, DeploymentRecord, TransactionStatus } from '../types';
+import type { NotificationData } from './Notification';
+import { useChainsawActions } from '../hooks/useChainsawActions';
+import { ConfirmTransactionModal } from './ConfirmTransactionModal';
+import { ApprovalModal } from './ApprovalModal';
+import { getChainName, getKnownChain } from '../utils/chains';
+import { ExternalLinkIcon } from './icons';
+import { EventLogList } from './EventLogList';
+
+interface HistoryViewProps {
+  history: TransactionRecord[];
+  settings: Settings;
+  showNotification: (message: string, type: NotificationData['type'], duration?: number) => void;
+  onTransactionUpdate: (record: TransactionRecord) => void;
+  onDeployment: (deployment: DeploymentRecord) => void;
+  onClearHistory: () => void;
+}
+
+const statusClasses: Record<TransactionStatus, string> = {
+  pending: 'text-yellow-400',
+  confirmed: 'text-green-400',
+  reverted: 'text-red-400',
+  failed: 'text-red-400',
+  replaced: 'text-gray-500',
+};
+
+const ALL = '__all__';
+
+const shorten = (value: string) => `${value.slice(0, 8)}...${value.slice(-6)}`;
+
+export const HistoryView: React.FC<HistoryViewProps> = ({
+  history,
+  settings,
+  showNotification,
+  onTransactionUpdate,
+  onClearHistory,
+  onDeployment
+}) => {
+  const { isConnected } = useAccount();
+  const { handleTransaction, replaceTransaction, pendingConfirmation, resolveConfirmation, pendingApproval, resolveApproval } = useChainsawActions(showNotification, onTransactionUpdate, onDeployment);
+  const [buttonFilter, setButtonFilter] = useState(ALL);
+  const [chainFilter, setChainFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [isConfirmingClear, setIsConfirmingClear] = useState(false);
+
+  const buttonKeys = useMemo(() => Array.from(new Set(history.map(tx => tx.buttonKey).filter((key): key is string => !!key))), [history]);
+  const chainIds = useMemo(() => Array.from(new Set(history.map(tx => tx.chainId))), [history]);
+
+  const filteredHistory = history.filter(tx =>
+    (buttonFilter === ALL || tx.buttonKey === buttonFilter) &&
+    (chainFilter === ALL || String(tx.chainId) === chainFilter) &&
+    (statusFilter === ALL || tx.status === statusFilter)
+  );
+
+  // Formats a value in the chain's native currency, as the confirmation dialog does:
+  // the button's custom currency if it targets this chain, else the known chain's.
+  const formatNativeValue = (record: TransactionRecord) => {
+    const buttonConfig = record.buttonKey ? settings[record.buttonKey] : undefined;
+    const currency = (buttonConfig?.id === record.chainId ? buttonConfig.nativeCurrency : undefined) ?? getKnownChain(record.chainId)?.nativeCurrency;
+    return `${formatUnits(BigInt(record.value), currency?.decimals ?? 18)} ${currency?.symbol ?? 'ETH'}`;
+  };
+
+  const handleRerun = async (record: TransactionRecord) => {
+    if (!isConnected) {
+      showNotification('Please connect your wallet first.', 'info');
+      return;
+    }
+
+    const buttonConfig = record.buttonKey ? settings[record.buttonKey] : undefined;
+    if (record.calls) {
+      // Replay the calls of a batch one by one, stopping at the first that does not succeed.
+      for (const call of record.calls) {
+        const receipt = await handleTransaction({
+          id: record.chainId,
+          address: call.to,
+          value: call.value,
+          data: call.data,
+          color: buttonConfig?.color ?? '',
+          blockExplorerUrls: buttonConfig?.blockExplorerUrls,
+        }, undefined, record.buttonKey);
+        if (receipt?.status !== 'success') return;
+      }
+      return;
+    }
+
+    if (buttonConfig && buttonConfig.type !== 'chained' && buttonConfig.abi && record.args?.length) {
+      // Re-run through the button so the same ABI encodes the recorded arguments.
+      // A button that prompts for its address was sent to the one recorded.
+      const address = buttonConfig.address === '$contractAddress' ? record.to ?? '' : buttonConfig.address;
+      // The recorded value is the amount that was sent, not the button's current setting.
+      handleTransaction({ ...buttonConfig, id: record.chainId, address, value: record.value, args: record.args }, record.args, record.buttonKey);
+      return;
+    }
+
+    // Otherwise resend the exact calldata that was recorded.
+    handleTransaction({
+      id: record.chainId,
+      address: record.to ?? '',
+      value: record.value,
+      data: record.data,
+      color: buttonConfig?.color ?? '',
+      blockExplorerUrls: buttonConfig?.blockExplorerUrls,
+    }, undefined, record.buttonKey);
+  };
+
+  const selectClassName = "w-full p-2 bg-gray-900 text-gray-200 rounded-md border border-gray-700 focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+  return (
+    <div className="space-y-8 max-w-6xl mx-auto">
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold">Transaction History</h2>
+          <button
+            onClick={() => setIsConfirmingClear(true)}
+            disabled={history.length === 0}
+            className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear History
+          </button>
+        </div>
+
+        <div className="bg-gray-800 p-4 rounded-lg grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+          <label className="block text-sm text-gray-300">
+            Button
+            <select value={buttonFilter} onChange={(e) => setButtonFilter(e.target.value)} className={`${selectClassName} mt-1`}>
+              <option value={ALL}>All buttons</option>
+              {buttonKeys.map(key => <option key={key} value={key}>{key}</option>)}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-300">
+            Chain
+            <select value={chainFilter} onChange={(e) => setChainFilter(e.target.value)} className={`${selectClassName} mt-1`}>
+              <option value={ALL}>All chains</option>
+              {chainIds.map(id => <option key={id} value={String(id)}>{getChainName(id)}</option>)}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-300">
+            Status
+            <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className={`${selectClassName} mt-1`}>
+              <option value={ALL}>All statuses</option>
+              {Object.keys(statusClasses).map(status => <option key={status} value={status} className="capitalize">{status}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="bg-gray-800 rounded-lg overflow-x-auto">
+          {filteredHistory.length > 0 ? (
+            <table className="w-full text-sm text-left">
+              <thead className="text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="p-3">Time</th>
+                  <th className="p-3">Button</th>
+                  <th className="p-3">Chain</th>
+                  <th className="p-3">To</th>
+                  <th className="p-3">Value</th>
+                  <th className="p-3">Status</th>
+                  <th className="p-3">Gas Used</th>
+                  <th className="p-3">Events</th>
+                  <th className="p-3">Hash</th>
+                  <th className="p-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredHistory.map(tx => (
+                  <tr key={tx.hash} className="border-b border-gray-700 last:border-0 hover:bg-gray-700/50">
+                    <td className="p-3 text-gray-300 whitespace-nowrap">{new Date(tx.timestamp).toLocaleString()}</td>
+                    <td className="p-3 text-gray-200 capitalize">{tx.buttonKey || '—'}<div className="text-xs text-gray-400 normal-case font-mono">{tx.label}</div></td>
+                    <td className="p-3 text-gray-300">{getChainName(tx.chainId)}</td>
+                    <td className="p-3 text-gray-300 font-mono" title={tx.calls ? tx.calls.map(call => call.to).join('\n') : tx.to}>
+                      {tx.calls ? `${tx.calls.length} calls` : tx.to ? shorten(tx.to) : 'Deploy'}
+                    </td>
+                    <td className="p-3 text-gray-300 font-mono">{formatNativeValue(tx)}</td>
+                    <td className={`p-3 uppercase text-xs font-semibold ${statusClasses[tx.status]}`}>{tx.status}</td>
+                    <td className="p-3 text-gray-300 font-mono">{tx.gasUsed ?? '—'}</td>
+                    <td className="p-3 text-gray-300 min-w-[12rem]">
+                      {tx.events?.length ? (
+                        <details>
+                          <summary className="cursor-pointer hover:text-white">{tx.events.map(event => event.name).join(', ')}</summary>
+                          <div className="mt-1">
+                            <EventLogList events={tx.events} />
+                          </div>
+                        </details>
+                      ) : '—'}
+                    </td>
+                    <td className="p-3 font-mono">
+                      {tx.explorerUrl ? (
+                        <a href={tx.explorerUrl} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-400 hover:text-blue-300">
+                          {shorten(tx.hash)}
+                          <ExternalLinkIcon className="w-3 h-3 ml-1" />
+                        </a>
+                      ) : (
+                        <span className="text-gray-300" title={tx.hash}>{shorten(tx.hash)}</span>
+                      )}
+                    </td>
+                    <td className="p-3 space-y-1">
+                      {tx.status === 'pending' && (
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => replaceTransaction(tx, 'speedUp')}
+                            disabled={!isConnected}
+                            className="px-2 py-1 text-xs bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Speed up
+                          </button>
+                          <button
+                            onClick={() => replaceTransaction(tx, 'cancel')}
+                            disabled={!isConnected}
+                            className="px-2 py-1 text-xs bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                      <button
+                        onClick={() => handleRerun(tx)}
+                        disabled={!isConnected}
+                        className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={tx.calls ? `Re-run the ${tx.calls.length} calls one by one` : tx.args?.length ? `Re-run with args: ${JSON.stringify(tx.args)}` : 'Re-run with the same calldata'}
+                      >
+                        Re-run
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-gray-400 text-center p-8">
+              {history.length === 0 ? 'No transactions recorded yet.' : 'No transactions match the selected filters.'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <ApprovalModal request={pendingApproval} onChoose={resolveApproval} />
+
+      <ConfirmTransactionModal
+        preview={pendingConfirmation}
+        onConfirm={() => resolveConfirmation(true)}
+        onCancel={() => resolveConfirmation(false)}
+      />
+
+      {isConfirmingClear && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-md p-6 space-y-4 border border-gray-700">
+            <h2 className="text-xl font-bold text-white">Clear History</h2>
+            <p className="text-gray-300">This removes all {history.length} recorded transactions from this browser.</p>
+            <div className="flex justify-end gap-4 pt-2">
+              <button
+                onClick={() => setIsConfirmingClear(false)}
+                className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  onClearHistory();
+                  setIsConfirmingClear(false);
+                }}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
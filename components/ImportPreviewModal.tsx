@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ConfigImport, Settings } from '../types';
+import { diffSettings } from '../utils/settingsDiff';
+import { SettingsDiffList } from './SettingsDiffList';
+
+interface ImportPreviewModalProps {
+  pendingImport: ConfigImport | null;
+  settings: Settings;
+  onApply: (mode: 'replace' | 'merge', applyVisibility: boolean) => void;
+  onCancel: () => void;
+}
+
+// Shows what an imported file or share link would change before it is applied.
+export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ pendingImport, settings, onApply, onCancel }) => {
+  const [mode, setMode] = useState<'replace' | 'merge'>('merge');
+  const [applyVisibility, setApplyVisibility] = useState(true);
+
+  // Each import starts from the defaults, not the choices made for the previous one.
+  useEffect(() => {
+    setMode('merge');
+    setApplyVisibility(true);
+  }, [pendingImport]);
+
+  const diffs = useMemo(() => {
+    if (!pendingImport) return [];
+    // A merge can take every incoming button; which ones it does is decided in the merge review.
+    return diffSettings(settings, mode === 'replace' ? pendingImport.settings : { ...settings, ...pendingImport.settings });
+  }, [pendingImport, settings, mode]);
+
+  if (!pendingImport) return null;
+
+  const incomingKeys = Object.keys(pendingImport.settings);
+  const existingCount = incomingKeys.filter(key => key in settings).length;
+  const profileNames = Object.keys(pendingImport.profileVisibility || {});
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-lg p-6 space-y-4 border border-gray-700">
+        <h2 className="text-xl font-bold text-white">Import Configuration</h2>
+        <p className="text-gray-300">
+          {pendingImport.source === 'link' ? 'A shared link' : 'The file'} contains {incomingKeys.length} button(s).
+        </p>
+
+        <div className="space-y-2">
+          <label className="flex items-start gap-3 p-3 bg-gray-900 rounded-md border border-gray-700 cursor-pointer">
+            <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1" />
+            <span>
+              <span className="block text-md font-semibold text-indigo-400">Merge</span>
+              <span className="block text-sm text-gray-400">
+                Add new buttons and keep your existing ones.
+                {existingCount > 0 && ` You choose, button by button, what happens to the ${existingCount} with taken names.`}
+              </span>
+            </span>
+          </label>
+          <label className="flex items-start gap-3 p-3 bg-gray-900 rounded-md border border-gray-700 cursor-pointer">
+            <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1" />
+            <span>
+              <span className="block text-md font-semibold text-blue-400">Replace</span>
+              <span className="block text-sm text-gray-400">Overwrite your current configuration.</span>
+            </span>
+          </label>
+        </div>
+
+        {profileNames.length > 0 && (
+          <label className="flex items-center gap-3 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={applyVisibility}
+              onChange={(e) => setApplyVisibility(e.target.checked)}
+              className="h-4 w-4 text-blue-600 bg-gray-700 border-gray-600 rounded"
+            />
+            Apply button visibility of {profileNames.join(', ')}
+            {pendingImport.activeProfile && ` and switch to ${pendingImport.activeProfile}`}
+          </label>
+        )}
+
+        <div className="p-3 bg-gray-900 rounded-md border border-gray-700 max-h-48 overflow-y-auto">
+          <SettingsDiffList diffs={diffs} />
+        </div>
+
+        <div className="flex justify-end gap-4 pt-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(mode, applyVisibility && profileNames.length > 0)}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+          >
+            {mode === 'merge' ? 'Review Merge' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
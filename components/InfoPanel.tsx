@@ -1,21 +1,56 @@
 import React from 'react';
 import { PlusIcon } from './icons';
 import { ProfileSelector } from './ProfileSelector';
+import { RecentTransactions } from './RecentTransactions';
+import { SignaturePanel } from './SignaturePanel';
+import { ReadResultPanel } from './ReadResultPanel';
+import { DecodedCallView } from './DecodedCallView';
+import type { ChainProgress, DecodedCall, ReadRecord, SignatureResult, StepStatus, TransactionRecord } from '../types';
 
 interface InfoPanelProps {
   hoveredDescription: string;
+  hoveredCall?: DecodedCall | null;
   activeProfile: string;
   setActiveProfile: (profile: string) => void;
   profileNames: string[];
   onAddButtonClick: () => void;
+  chainProgress?: ChainProgress | null;
+  onDismissChainProgress?: () => void;
+  transactions?: TransactionRecord[];
+  onReplaceTransaction?: (tx: TransactionRecord, mode: 'speedUp' | 'cancel') => void;
+  onRefreshReads?: () => void;
+  isRefreshingReads?: boolean;
+  signatureResult?: SignatureResult | null;
+  onDismissSignature?: () => void;
+  readRecords?: ReadRecord[];
+  onDismissReadResult?: () => void;
 }
 
+const stepStatusClasses: Record<StepStatus, string> = {
+  queued: 'text-gray-400',
+  pending: 'text-yellow-400 animate-pulse',
+  mined: 'text-green-400',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+};
+
 export const InfoPanel: React.FC<InfoPanelProps> = ({ 
   hoveredDescription,
+  hoveredCall,
   activeProfile,
   setActiveProfile,
   profileNames,
-  onAddButtonClick
+  onAddButtonClick,
+  chainProgress,
+  onDismissChainProgress,
+  transactions = [],
+  onReplaceTransaction,
+  onRefreshReads,
+  isRefreshingReads = false,
+  signatureResult,
+  onDismissSignature,
+  readRecords,
+  onDismissReadResult
 }) => {
   return (
     <div className="lg:col-span-5 xl:col-span-4">
@@ -25,8 +60,72 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({
                 <h3 className="text-lg font-semibold text-white mb-2 flex-shrink-0 border-b border-gray-700 pb-2">Action Description</h3>
                 <div className="overflow-y-auto pr-2 flex-grow">
                     <p className="text-gray-300 whitespace-pre-wrap">{hoveredDescription}</p>
+                    {hoveredCall && (
+                        <div className="mt-2 pt-2 border-t border-gray-700">
+                            <DecodedCallView call={hoveredCall} />
+                        </div>
+                    )}
                 </div>
             </div>
+
+            {/* Chained Action Progress */}
+            {chainProgress && (
+                <div className="p-4 bg-gray-800 rounded-lg border border-gray-700">
+                    <div className="flex items-center justify-between mb-2 border-b border-gray-700 pb-2">
+                        <h3 className="text-lg font-semibold text-white capitalize">{chainProgress.buttonKey}</h3>
+                        <button
+                            onClick={onDismissChainProgress}
+                            className="text-gray-400 hover:text-white font-bold"
+                            aria-label="Dismiss progress"
+                        >
+                            &times;
+                        </button>
+                    </div>
+                    <ol className="space-y-1">
+                        {chainProgress.steps.map((step, index) => (
+                            <li key={index} className="flex items-center justify-between text-sm">
+                                <span className="text-gray-300 font-mono truncate" title={step.hash}>
+                                    {index + 1}. {step.label}
+                                </span>
+                                <span className={`ml-2 uppercase text-xs font-semibold ${stepStatusClasses[step.status]}`}>
+                                    {step.status}
+                                </span>
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+
+            {/* Read Results of the last read button */}
+            {readRecords && readRecords.length > 0 && (
+                <ReadResultPanel
+                    key={readRecords[0].buttonKey}
+                    records={readRecords}
+                    onDismiss={() => onDismissReadResult?.()}
+                />
+            )}
+
+            {/* Last Signature */}
+            {signatureResult && (
+                <SignaturePanel result={signatureResult} onDismiss={() => onDismissSignature?.()} />
+            )}
+
+            {/* Refresh all visible read-only buttons in one batch */}
+            {onRefreshReads && (
+                <button
+                    onClick={onRefreshReads}
+                    disabled={isRefreshingReads}
+                    className="w-full bg-gray-700 text-white rounded-lg py-2 px-4 hover:bg-gray-600 transition-colors duration-200 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isRefreshingReads ? 'Refreshing...' : 'Refresh Reads'}
+                </button>
+            )}
+
+            <RecentTransactions
+                transactions={transactions}
+                onSpeedUp={(tx) => onReplaceTransaction?.(tx, 'speedUp')}
+                onCancel={(tx) => onReplaceTransaction?.(tx, 'cancel')}
+            />
             
             <div className="flex items-center gap-4">
                 {/* Profile Selector */}
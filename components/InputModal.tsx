@@ -3,7 +3,10 @@ import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import type { ButtonConfig } from '../types';
 import type { NotificationData } from './Notification';
 import type { Abi, AbiFunction, AbiParameter } from 'viem';
-import { isAddress } from 'viem';
+import { isAddress, erc20Abi } from 'viem';
+import { useReadContracts } from 'wagmi';
+import { parseAmount, isTokenAmount, type TokenUnits } from '../utils/units';
+import { isPlaceholder } from '../utils/placeholders';
 
 interface InputModalProps {
   isOpen: boolean;
@@ -36,6 +39,19 @@ const updateDeep = (current: any, path: (string | number)[], value: any): any =>
     return newCurrent;
 };
 
+// A $step or $read argument. It is resolved when the button runs, so the form
+// passes it on unchanged instead of editing it.
+const isResolvedArg = (value: any): boolean => {
+    return typeof value === 'object' && value !== null && ('$step' in value || '$read' in value);
+};
+
+const describeResolvedArg = (value: any): string => {
+    if ('$step' in value) {
+        return `Output of step ${value.$step + 1}${value.path ? ` (${value.path})` : ''}`;
+    }
+    return `Read of ${value.$read?.functionName || 'a contract'}${value.$read?.select ? ` (${value.$read.select})` : ''}`;
+};
+
 // Determines if a saved value should be considered empty and require user input.
 const isValueEmpty = (value: any): boolean => {
     return value == null || value === '';
@@ -55,6 +71,21 @@ export const InputModal: React.FC<InputModalProps> = ({ isOpen, onClose, config,
     const isDataPrompt = useMemo(() => config?.data === '$data', [config]);
     const isDescriptionPrompt = useMemo(() => config?.description === '$description', [config]);
 
+    // Symbol and decimals of the button's token, for amounts typed as e.g. "100 USDC".
+    const tokenAddress = config?.token && isAddress(config.token) ? config.token : undefined;
+    const { data: tokenData } = useReadContracts({
+        contracts: tokenAddress ? [
+            { address: tokenAddress, abi: erc20Abi, functionName: 'symbol', chainId: typeof config?.id === 'number' ? config.id : undefined },
+            { address: tokenAddress, abi: erc20Abi, functionName: 'decimals', chainId: typeof config?.id === 'number' ? config.id : undefined },
+        ] : [],
+        query: { enabled: isOpen && !!tokenAddress },
+    });
+    const tokenUnits = useMemo((): TokenUnits | undefined => {
+        const [symbol, decimals] = tokenData ?? [];
+        if (symbol?.status !== 'success' || decimals?.status !== 'success') return undefined;
+        return { symbol: symbol.result as string, decimals: Number(decimals.result) };
+    }, [tokenData]);
+
     const selectedAbiItem = useMemo(() => {
         if (!config || !config.abi) return null;
         
@@ -88,7 +119,16 @@ export const InputModal: React.FC<InputModalProps> = ({ isOpen, onClose, config,
             return valuesToProcess;
         }
 
+        const convertAmount = (value: any): string => {
+            if (isPlaceholder(value)) return value;
+            if (typeof value === 'string' && isTokenAmount(value) && tokenAddress && !tokenUnits) {
+                throw new Error(`Token details for "${value}" are still loading or could not be read.`);
+            }
+            return parseAmount(value, tokenUnits).toString();
+        };
+
         const convertValue = (abiDef: AbiParameter, value: any): any => {
+            if (isResolvedArg(value)) return value;
             const trimmedValue = typeof value === 'string' ? value.trim() : value;
             if (trimmedValue === undefined || trimmedValue === null || trimmedValue === '') {
                 throw new Error(`Argument "${abiDef.name || ''}" cannot be empty.`);
@@ -104,20 +144,21 @@ export const InputModal: React.FC<InputModalProps> = ({ isOpen, onClose, config,
             }
 
             if (abiDef.type.endsWith('[]')) {
+                let arrayValue: any;
                 try {
-                    const arrayValue = JSON.parse(trimmedValue);
+                    arrayValue = JSON.parse(trimmedValue);
                     if (!Array.isArray(arrayValue)) throw new Error();
-                    const baseType = abiDef.type.slice(0, -2);
-                    if (baseType.startsWith('uint') || baseType.startsWith('int')) {
-                        return arrayValue.map(item => BigInt(item).toString());
-                    }
-                    return arrayValue;
                 } catch {
                     throw new Error(`Argument "${abiDef.name}" must be a valid JSON array string (e.g., ["a", "b"] or [1, 2]).`);
                 }
+                const baseType = abiDef.type.slice(0, -2);
+                if (baseType.startsWith('uint') || baseType.startsWith('int')) {
+                    return arrayValue.map((item: any) => convertAmount(item));
+                }
+                return arrayValue;
             }
              if (abiDef.type.startsWith('uint') || abiDef.type.startsWith('int')) {
-                return BigInt(trimmedValue).toString();
+                return convertAmount(trimmedValue);
             }
             if (abiDef.type === 'bool') {
                 const lowerValue = String(trimmedValue).toLowerCase();
@@ -135,7 +176,7 @@ export const InputModal: React.FC<InputModalProps> = ({ isOpen, onClose, config,
             showNotification(`Error: ${e.message}`, 'error');
             return null;
         }
-    }, [selectedAbiItem, showNotification]);
+    }, [selectedAbiItem, tokenAddress, tokenUnits, showNotification]);
     
     useEffect(() => {
         setContractAddress('');
@@ -160,6 +201,9 @@ export const InputModal: React.FC<InputModalProps> = ({ isOpen, onClose, config,
                 const formatSavedArgsForUI = (inputs: readonly AbiParameter[], args: any[]): any[] => {
                     return args.map((arg, index) => {
                         const input = inputs[index];
+                        if (isResolvedArg(arg)) {
+                            return arg;
+                        }
                         if (input.type === 'tuple' && typeof arg === 'object' && arg !== null) {
                              const formattedTuple: { [key: string]: any } = {};
                              ((input as { components: readonly AbiParameter[] }).components).forEach((component) => {
@@ -258,6 +302,9 @@ export const InputModal: React.FC<InputModalProps> = ({ isOpen, onClose, config,
             
             const path = [...pathPrefix, currentSegment!];
             
+            if (isResolvedArg(getDeep(argsSource, path))) {
+                return;
+            }
             if (input.type === 'tuple') {
                 const visibleChildren = checkVisibleInputs((input as { components: readonly AbiParameter[] }).components, argsSource, path, true);
                 if (visibleChildren.length > 0) {
@@ -294,6 +341,9 @@ export const InputModal: React.FC<InputModalProps> = ({ isOpen, onClose, config,
         if (type.endsWith('[]')) {
             return 'e.g., ["0x123...", "0xabc..."]';
         }
+        if (type.startsWith('uint') || type.startsWith('int')) {
+            return tokenUnits ? `${type}, e.g. 100 ${tokenUnits.symbol} or 0.01 ether` : `${type}, e.g. 0.01 ether or 5 gwei`;
+        }
         return type;
     };
 
@@ -330,6 +380,20 @@ export const InputModal: React.FC<InputModalProps> = ({ isOpen, onClose, config,
             
             const path = [...pathPrefix, currentSegment];
             
+            const savedValue = getDeep(config?.args, path);
+            if (isResolvedArg(savedValue)) {
+                return (
+                    <div key={path.join('.')}>
+                        <span className="block text-sm font-medium text-gray-300 capitalize">
+                            {input.name} <span className="text-gray-400 font-mono text-xs">({input.type})</span>
+                        </span>
+                        <p className="w-full mt-1 p-2 bg-gray-900 text-gray-400 font-mono text-sm rounded-md border border-gray-700" title={JSON.stringify(savedValue)}>
+                            {describeResolvedArg(savedValue)}
+                        </p>
+                    </div>
+                );
+            }
+
             if (input.type === 'tuple') {
                 const components = (input as { components: readonly AbiParameter[] }).components;
                 const childFields = renderInputFields(components, path, true).filter(Boolean);
@@ -347,7 +411,6 @@ export const InputModal: React.FC<InputModalProps> = ({ isOpen, onClose, config,
                 return null;
             }
             
-            const savedValue = getDeep(config?.args, path);
             if (!isValueEmpty(savedValue)) {
                 return null; // Don't render pre-filled fields
             }
@@ -377,7 +440,8 @@ export const InputModal: React.FC<InputModalProps> = ({ isOpen, onClose, config,
     const abiItemExists = hasInputs(selectedAbiItem);
     const renderedFields = abiItemExists ? renderInputFields(selectedAbiItem.inputs, [], false).filter(Boolean) : [];
 
-    if (renderedFields.length === 0 && !isAddressPrompt && !isChainIdPrompt && !isColorPrompt && !isDataPrompt && !isDescriptionPrompt && isOpen) {
+    const hasEditableFields = abiItemExists && checkVisibleInputs(selectedAbiItem.inputs, config.args, [], false).length > 0;
+    if (!hasEditableFields && !isAddressPrompt && !isChainIdPrompt && !isColorPrompt && !isDataPrompt && !isDescriptionPrompt && isOpen) {
         // This handles the case where the modal might briefly flash before auto-submitting.
         // Or if for some reason auto-submit fails, it ensures we don't show an empty modal.
         return null;
@@ -1,6 +1,6 @@
 
 import React, { useState, useCallback } from 'react';
-import type { Settings, VisibleButtons, ButtonConfig } from '../types';
+import type { Settings, VisibleButtons, ButtonConfig, ChainProgress, DecodedCall, SignatureResult, StepStatus, TransactionRecord, DeploymentRecord } from '../types';
 import type { NotificationData } from './Notification';
 import { useAccount } from 'wagmi';
 import { AddButtonModal } from './AddButtonModal';
@@ -8,10 +8,16 @@ import { InputModal } from './InputModal';
 import type { Abi, AbiFunction } from 'viem';
 import { isAddress } from 'viem';
 import { useChainsawActions } from '../hooks/useChainsawActions';
+import { useLiveReads } from '../hooks/useLiveReads';
+import { decodeCalldata } from '../utils/calldata';
+import { ConfirmTransactionModal } from './ConfirmTransactionModal';
+import { ApprovalModal } from './ApprovalModal';
 import { useButtonDragAndDrop } from '../hooks/useButtonDragAndDrop';
 import { InfoPanel } from './InfoPanel';
 import { ActionGrid } from './ActionGrid';
 
+type InputPayload = { args: any[], contractAddress?: string, chainId?: string, color?: string, data?: string, description?: string };
+
 interface MainViewProps {
   settings: Settings;
   setSettings: (settings: Settings) => void;
@@ -22,6 +28,8 @@ interface MainViewProps {
   activeProfile: string;
   setActiveProfile: (profile: string) => void;
   profileNames: string[];
+  onTransactionUpdate: (record: TransactionRecord) => void;
+  onDeployment: (deployment: DeploymentRecord) => void;
 }
 
 export const MainView: React.FC<MainViewProps> = ({ 
@@ -33,19 +41,31 @@ export const MainView: React.FC<MainViewProps> = ({
   showNotification, 
   activeProfile, 
   setActiveProfile, 
-  profileNames 
+  profileNames,
+  onTransactionUpdate,
+  onDeployment
 }) => {
   const { address, isConnected } = useAccount();
-  const { executeRead, handleTransaction, getExecutionConfig } = useChainsawActions(showNotification);
+  const { executeRead, refreshReads, readButtons, reads, handleTransaction, signWithButton, replaceTransaction, executeChain, getExecutionConfig, transactions, pendingConfirmation, resolveConfirmation, pendingApproval, resolveApproval } = useChainsawActions(showNotification, onTransactionUpdate, onDeployment);
   const dragAndDropHandlers = useButtonDragAndDrop(onReorder);
 
   const [hoveredDescription, setHoveredDescription] = useState<string>('Hover over a button to see its description.');
+  // Calldata of the hovered raw-data button, decoded for the info panel.
+  const [hoveredCall, setHoveredCall] = useState<DecodedCall | null>(null);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isInputModalOpen, setIsInputModalOpen] = useState(false);
-  const [currentConfigForInput, setCurrentConfigForInput] = useState<{ key: string; config: ButtonConfig } | null>(null);
+  const [currentConfigForInput, setCurrentConfigForInput] = useState<{ key: string; config: ButtonConfig; stepIndex?: number } | null>(null);
+  // Steps of a chained button whose inputs are being collected before execution.
+  const [pendingChainSteps, setPendingChainSteps] = useState<ButtonConfig[] | null>(null);
+  const [chainProgress, setChainProgress] = useState<ChainProgress | null>(null);
+  const [isRefreshingReads, setIsRefreshingReads] = useState(false);
+  const [signatureResult, setSignatureResult] = useState<SignatureResult | null>(null);
+  // The read-only button whose results are shown in the info panel.
+  const [activeReadKey, setActiveReadKey] = useState<string | null>(null);
 
   const handleCloseInputModal = useCallback(() => {
     setIsInputModalOpen(false);
+    setPendingChainSteps(null);
   }, []);
 
   const handleSaveButton = (key: string, config: ButtonConfig) => {
@@ -54,19 +74,7 @@ export const MainView: React.FC<MainViewProps> = ({
     showNotification(`Button "${key}" saved successfully!`, 'success');
   };
 
-  const handleButtonClick = (key: string, config: ButtonConfig) => {
-    if (!isConnected || !address) {
-      showNotification('Please connect your wallet first.', 'info');
-      return;
-    }
-    
-    if (config.type === 'chained' && config.steps) {
-        showNotification("Chained actions are not yet implemented.", "info");
-        return;
-    }
-
-    const execConfig = getExecutionConfig(config);
-    
+  const needsUserInput = (execConfig: ButtonConfig): boolean => {
     const needsAddress = execConfig.address === '$contractAddress';
     const needsChainId = execConfig.id === '$chainId';
     const needsColor = execConfig.color === '$color';
@@ -95,58 +103,150 @@ export const MainView: React.FC<MainViewProps> = ({
         }
     }
 
-    if (hasEmptyArgs || needsAddress || needsChainId || needsColor || needsData || needsDescription) {
+    return hasEmptyArgs || needsAddress || needsChainId || needsColor || needsData || needsDescription;
+  };
+
+  const applyInputPayload = (config: ButtonConfig, payload: InputPayload): ButtonConfig => {
+    const newConfig = { ...config };
+    if (payload.contractAddress) {
+        newConfig.address = payload.contractAddress;
+    }
+    if (payload.chainId) {
+        const chainIdNum = parseInt(payload.chainId, 10);
+        if (!isNaN(chainIdNum)) {
+            newConfig.id = chainIdNum;
+        }
+    }
+    if (payload.color) {
+        newConfig.color = payload.color;
+    }
+    if (payload.data) {
+      newConfig.data = payload.data;
+    }
+    if (payload.description) {
+        newConfig.description = payload.description;
+    }
+    return newConfig;
+  };
+
+  const runChain = async (key: string, steps: ButtonConfig[]) => {
+    setChainProgress({
+      buttonKey: key,
+      steps: steps.map((step, index) => ({
+        label: step.functionName || (step.address === '' ? 'Deploy' : `Step ${index + 1}`),
+        status: 'queued',
+      })),
+    });
+
+    const updateStep = (index: number, status: StepStatus, hash?: `0x${string}`) => {
+      setChainProgress(prev => prev && {
+        ...prev,
+        steps: prev.steps.map((step, i) => i === index ? { ...step, status, hash: hash ?? step.hash } : step),
+      });
+    };
+
+    const success = await executeChain(steps, updateStep, key);
+    if (success) {
+      showNotification(`All ${steps.length} steps of "${key}" completed.`, 'success');
+    }
+  };
+
+  // Opens the input modal for the next chained step that needs user input,
+  // or starts the chain once every step is complete.
+  const continueChainInput = (key: string, steps: ButtonConfig[], fromIndex: number) => {
+    const nextIndex = steps.findIndex((step, index) => index >= fromIndex && needsUserInput(step));
+    if (nextIndex === -1) {
+      setIsInputModalOpen(false);
+      setCurrentConfigForInput(null);
+      setPendingChainSteps(null);
+      runChain(key, steps);
+      return;
+    }
+    setPendingChainSteps(steps);
+    setCurrentConfigForInput({ key, config: steps[nextIndex], stepIndex: nextIndex });
+    setIsInputModalOpen(true);
+  };
+
+  const handleButtonClick = (key: string, config: ButtonConfig) => {
+    if (!isConnected || !address) {
+      showNotification('Please connect your wallet first.', 'info');
+      return;
+    }
+    
+    if (config.type === 'chained') {
+        if (!config.steps || config.steps.length === 0) {
+            showNotification('This chained button has no steps.', 'error');
+            return;
+        }
+        if (config.steps.some(step => step.type === 'chained')) {
+            showNotification('Nested chained steps are not supported.', 'error');
+            return;
+        }
+        const steps = config.steps.map(step => getExecutionConfig({
+            ...step,
+            id: step.id ?? config.id,
+            color: step.color ?? config.color,
+            value: step.value ?? '0',
+        }));
+        continueChainInput(key, steps, 0);
+        return;
+    }
+
+    if (config.type === 'sign') {
+        signWithButton(config, key).then(result => {
+            if (result) setSignatureResult(result);
+        });
+        return;
+    }
+
+    const execConfig = getExecutionConfig(config);
+
+    if (needsUserInput(execConfig)) {
         setCurrentConfigForInput({ key, config: execConfig });
         setIsInputModalOpen(true);
     } else {
         if (execConfig.readOnly) {
-          executeRead(execConfig, execConfig.args as any[]);
+          setActiveReadKey(key);
+          executeRead(execConfig, execConfig.args as any[], undefined, key);
         } else {
-          handleTransaction(execConfig);
+          handleTransaction(execConfig, undefined, key);
         }
     }
   };
 
-  const handleInputModalSubmit = (payload: { args: any[], contractAddress?: string, chainId?: string, color?: string, data?: string, description?: string }) => {
+  const handleInputModalSubmit = (payload: InputPayload) => {
     if (currentConfigForInput) {
-      const newConfig = { ...currentConfigForInput.config };
-      if (payload.contractAddress) {
-          newConfig.address = payload.contractAddress;
-      }
-      if (payload.chainId) {
-          const chainIdNum = parseInt(payload.chainId, 10);
-          if (!isNaN(chainIdNum)) {
-              newConfig.id = chainIdNum;
-          }
-      }
-      if (payload.color) {
-          newConfig.color = payload.color;
-      }
-      if (payload.data) {
-        newConfig.data = payload.data;
-      }
-      if (payload.description) {
-          newConfig.description = payload.description;
+      const newConfig = applyInputPayload(currentConfigForInput.config, payload);
+      const { key, stepIndex } = currentConfigForInput;
+
+      if (stepIndex !== undefined && pendingChainSteps) {
+        const steps = [...pendingChainSteps];
+        steps[stepIndex] = { ...newConfig, args: payload.args };
+        continueChainInput(key, steps, stepIndex + 1);
+        return;
       }
 
       if (newConfig.readOnly) {
-        executeRead(newConfig, payload.args);
+        setActiveReadKey(key);
+        executeRead(newConfig, payload.args, undefined, key);
       } else {
-        handleTransaction(newConfig, payload.args);
+        handleTransaction(newConfig, payload.args, key);
       }
     }
     setIsInputModalOpen(false);
     setCurrentConfigForInput(null);
   };
   
-  const handleInputModalSave = (payload: { args: any[], contractAddress?: string, chainId?: string, color?: string, data?: string, description?: string }) => {
+  const handleInputModalSave = (payload: InputPayload) => {
     if (currentConfigForInput) {
-        const { key, config } = currentConfigForInput;
-        const newConfig = { ...config, args: payload.args };
+        const { key, config, stepIndex } = currentConfigForInput;
+        // Only what the user entered is saved; a step's config also carries values
+        // inherited from its parent button, which must stay inherited.
+        const changes: Partial<ButtonConfig> = { args: payload.args };
 
         if (config.address === '$contractAddress' && payload.contractAddress) {
             if (isAddress(payload.contractAddress)) {
-                newConfig.address = payload.contractAddress;
+                changes.address = payload.contractAddress;
             } else if (payload.contractAddress.trim() !== '') {
                 showNotification('Invalid address provided. It was not saved.', 'error');
             }
@@ -155,7 +255,7 @@ export const MainView: React.FC<MainViewProps> = ({
         if (config.id === '$chainId' && payload.chainId) {
             const chainIdNum = parseInt(payload.chainId, 10);
             if (!isNaN(chainIdNum)) {
-                newConfig.id = chainIdNum;
+                changes.id = chainIdNum;
             } else if (payload.chainId.trim() !== '') {
                 showNotification('Invalid Chain ID provided. It was not saved.', 'error');
             }
@@ -163,7 +263,7 @@ export const MainView: React.FC<MainViewProps> = ({
         
         if (config.color === '$color' && payload.color) {
             if (payload.color.trim() !== '') {
-                newConfig.color = payload.color;
+                changes.color = payload.color;
             } else {
                 showNotification('Color value was empty. It was not saved.', 'error');
             }
@@ -171,7 +271,7 @@ export const MainView: React.FC<MainViewProps> = ({
         
         if (config.data === '$data' && payload.data) {
             if (payload.data.trim() !== '') {
-                newConfig.data = payload.data;
+                changes.data = payload.data;
             } else {
                 showNotification('Data value was empty. It was not saved.', 'error');
             }
@@ -179,18 +279,56 @@ export const MainView: React.FC<MainViewProps> = ({
 
         if (config.description === '$description' && payload.description) {
             if (payload.description.trim() !== '') {
-                newConfig.description = payload.description;
+                changes.description = payload.description;
             } else {
                 showNotification('Description was empty. It was not saved.', 'error');
             }
         }
         
-        handleSaveButton(key, newConfig);
+        const newConfig = { ...config, ...changes };
+        if (stepIndex !== undefined) {
+            const parentConfig = settings[key];
+            const steps = [...(parentConfig.steps || [])];
+            steps[stepIndex] = { ...steps[stepIndex], ...changes };
+            handleSaveButton(key, { ...parentConfig, steps });
+            setPendingChainSteps(prev => prev && prev.map((step, i) => i === stepIndex ? newConfig : step));
+        } else {
+            handleSaveButton(key, newConfig);
+        }
     }
   };
   
   const visibleButtonKeys = buttonOrder.filter(key => visibleButtons[key] !== false);
 
+  // Read-only buttons that can run without prompting, refreshed together by "Refresh Reads".
+  const refreshableReads = visibleButtonKeys
+    .filter(key => settings[key] && settings[key].type !== 'chained')
+    .map(key => ({ key, config: getExecutionConfig(settings[key]) }))
+    .filter(({ config }) => config.readOnly && !needsUserInput(config));
+
+  const liveValues = useLiveReads(refreshableReads.filter(({ config }) => config.watch), readButtons);
+
+  const handleRefreshReads = async () => {
+    setIsRefreshingReads(true);
+    try {
+      await refreshReads(refreshableReads);
+    } finally {
+      setIsRefreshingReads(false);
+    }
+  };
+
+  const handleButtonHoverStart = (_key: string, config: ButtonConfig) => {
+    setHoveredDescription(config.description || 'No description provided.');
+    // Only raw calldata is decoded; deployments carry bytecode and ABI calls are encoded later.
+    const isRawCall = config.address !== '' && !config.functionName;
+    setHoveredCall(isRawCall ? decodeCalldata(config.data, config.abi) : null);
+  };
+
+  const handleButtonHoverEnd = () => {
+    setHoveredDescription('Hover over a button to see its description.');
+    setHoveredCall(null);
+  };
+
   return (
     <>
       <div>
@@ -198,18 +336,30 @@ export const MainView: React.FC<MainViewProps> = ({
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 lg:gap-8">
             <InfoPanel 
               hoveredDescription={hoveredDescription}
+              hoveredCall={hoveredCall}
               activeProfile={activeProfile}
               setActiveProfile={setActiveProfile}
               profileNames={profileNames}
               onAddButtonClick={() => setIsAddModalOpen(true)}
+              chainProgress={chainProgress}
+              onDismissChainProgress={() => setChainProgress(null)}
+              transactions={transactions}
+              onReplaceTransaction={replaceTransaction}
+              onRefreshReads={refreshableReads.length > 0 ? handleRefreshReads : undefined}
+              isRefreshingReads={isRefreshingReads}
+              signatureResult={signatureResult}
+              onDismissSignature={() => setSignatureResult(null)}
+              readRecords={activeReadKey ? reads[activeReadKey] : undefined}
+              onDismissReadResult={() => setActiveReadKey(null)}
             />
             
             <ActionGrid
               visibleButtonKeys={visibleButtonKeys}
               settings={settings}
+              liveValues={liveValues}
               onButtonClick={handleButtonClick}
-              onButtonHoverStart={(desc) => setHoveredDescription(desc)}
-              onButtonHoverEnd={() => setHoveredDescription('Hover over a button to see its description.')}
+              onButtonHoverStart={handleButtonHoverStart}
+              onButtonHoverEnd={handleButtonHoverEnd}
               dragAndDropHandlers={dragAndDropHandlers}
             />
           </div>
@@ -234,6 +384,14 @@ export const MainView: React.FC<MainViewProps> = ({
         settings={settings}
       />
       
+      <ApprovalModal request={pendingApproval} onChoose={resolveApproval} />
+
+      <ConfirmTransactionModal
+        preview={pendingConfirmation}
+        onConfirm={() => resolveConfirmation(true)}
+        onCancel={() => resolveConfirmation(false)}
+      />
+
       {isInputModalOpen && currentConfigForInput && (
         <InputModal
           isOpen={isInputModalOpen}
@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import type { ConfigImport, Settings } from '../types';
+import { applyMergeResolutions, diffSettings, getFieldChanges, type FieldChange, type MergeResolution } from '../utils/settingsDiff';
+
+interface MergeReviewModalProps {
+  // Where the incoming buttons come from, named in the title.
+  source: 'preset' | ConfigImport['source'];
+  settings: Settings;
+  incoming: Settings;
+  onApply: (merged: Settings) => void;
+  onCancel: () => void;
+}
+
+const SOURCE_LABELS: Record<MergeReviewModalProps['source'], string> = {
+  preset: 'Preset',
+  file: 'File',
+  link: 'Shared Link',
+};
+
+const RESOLUTION_LABELS: Record<MergeResolution, string> = {
+  mine: 'Keep mine',
+  theirs: 'Take theirs',
+  both: 'Keep both',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
+
+const FieldChangeRow: React.FC<{ change: FieldChange }> = ({ change }) => (
+  <div className={`p-2 rounded-md text-xs ${change.securityRelevant ? 'bg-red-900 bg-opacity-40 border border-red-700' : 'bg-gray-800'}`}>
+    <div className="flex items-center justify-between mb-1">
+      <span className="font-mono font-semibold text-gray-200">{change.field}</span>
+      {change.securityRelevant && <span className="text-red-400 font-semibold uppercase">Security-relevant</span>}
+    </div>
+    <div className="grid grid-cols-2 gap-2">
+      <pre className="p-2 bg-gray-900 rounded text-gray-300 whitespace-pre-wrap break-all max-h-32 overflow-y-auto">{formatValue(change.before)}</pre>
+      <pre className="p-2 bg-gray-900 rounded text-gray-300 whitespace-pre-wrap break-all max-h-32 overflow-y-auto">{formatValue(change.after)}</pre>
+    </div>
+  </div>
+);
+
+// Lets the user decide, button by button, how a preset or an import is merged into their configuration.
+export const MergeReviewModal: React.FC<MergeReviewModalProps> = ({ source, settings, incoming, onApply, onCancel }) => {
+  const { added, changed, unchanged, fieldChanges } = useMemo(() => {
+    const diffs = diffSettings(settings, incoming);
+    const changedDiffs = diffs.filter(diff => diff.status === 'changed');
+    return {
+      added: diffs.filter(diff => diff.status === 'added'),
+      changed: changedDiffs,
+      unchanged: diffs.filter(diff => diff.status === 'unchanged'),
+      fieldChanges: Object.fromEntries(
+        changedDiffs.map(diff => [diff.key, getFieldChanges(settings[diff.key], incoming[diff.key])])
+      ) as Record<string, FieldChange[]>,
+    };
+  }, [settings, incoming]);
+
+  // New buttons are added and changed ones keep the user's version unless they choose otherwise.
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>(() => Object.fromEntries([
+    ...added.map(diff => [diff.key, 'theirs'] as const),
+    ...changed.map(diff => [diff.key, 'mine'] as const),
+  ]));
+
+  const setResolution = (key: string, resolution: MergeResolution) => {
+    setResolutions(prev => ({ ...prev, [key]: resolution }));
+  };
+
+  const setAllChanged = (resolution: MergeResolution) => {
+    setResolutions(prev => ({ ...prev, ...Object.fromEntries(changed.map(diff => [diff.key, resolution])) }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl p-6 space-y-4 border border-gray-700 max-h-full flex flex-col">
+        <div>
+          <h2 className="text-xl font-bold text-white">Review {SOURCE_LABELS[source]} Merge</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            {added.length} new · {changed.length} changed · {unchanged.length} unchanged
+          </p>
+        </div>
+
+        <div className="overflow-y-auto space-y-6 pr-2 flex-grow">
+          {changed.length > 0 && (
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-md font-semibold text-yellow-400">Changed</h3>
+                <div className="flex gap-2 text-xs">
+                  <button onClick={() => setAllChanged('mine')} className="text-gray-400 hover:text-white">Keep all mine</button>
+                  <button onClick={() => setAllChanged('theirs')} className="text-gray-400 hover:text-white">Take all theirs</button>
+                </div>
+              </div>
+              <ul className="space-y-2">
+                {changed.map(diff => {
+                  const changes = fieldChanges[diff.key] || [];
+                  const isSecurityRelevant = changes.some(change => change.securityRelevant);
+                  return (
+                    <li key={diff.key} className={`p-3 bg-gray-900 rounded-md border ${isSecurityRelevant ? 'border-red-700' : 'border-gray-700'}`}>
+                      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <span className="text-gray-200 font-semibold capitalize">{diff.key}</span>
+                          {isSecurityRelevant && (
+                            <span className="ml-2 text-xs text-red-400 font-semibold">Target address or chain changed</span>
+                          )}
+                        </div>
+                        <div className="flex rounded-md overflow-hidden border border-gray-600 text-xs flex-shrink-0">
+                          {(['mine', 'theirs', 'both'] as MergeResolution[]).map(resolution => (
+                            <button
+                              key={resolution}
+                              onClick={() => setResolution(diff.key, resolution)}
+                              className={`px-3 py-1 transition-colors ${resolutions[diff.key] === resolution ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                            >
+                              {RESOLUTION_LABELS[resolution]}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <details className="mt-2" open={isSecurityRelevant}>
+                        <summary className="cursor-pointer text-xs text-gray-400 hover:text-gray-200">
+                          {changes.length} field(s) differ: {changes.map(change => change.field).join(', ')}
+                        </summary>
+                        <div className="grid grid-cols-2 gap-2 mt-2 text-xs text-gray-500">
+                          <span>Mine</span>
+                          <span>Theirs</span>
+                        </div>
+                        <div className="space-y-2 mt-1">
+                          {changes.map(change => <FieldChangeRow key={change.field} change={change} />)}
+                        </div>
+                      </details>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          )}
+
+          {added.length > 0 && (
+            <section>
+              <h3 className="text-md font-semibold text-green-400 mb-2">New</h3>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {added.map(diff => (
+                  <label key={diff.key} className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={resolutions[diff.key] === 'theirs'}
+                      onChange={(e) => setResolution(diff.key, e.target.checked ? 'theirs' : 'mine')}
+                      className="h-4 w-4 text-blue-600 bg-gray-700 border-gray-600 rounded"
+                    />
+                    <span className="capitalize truncate">{diff.key}</span>
+                  </label>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {unchanged.length > 0 && (
+            <details className="text-sm text-gray-400">
+              <summary className="cursor-pointer hover:text-gray-200">Unchanged ({unchanged.length})</summary>
+              <p className="mt-2 text-gray-500 capitalize">{unchanged.map(diff => diff.key).join(', ')}</p>
+            </details>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-4 pt-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(applyMergeResolutions(settings, incoming, resolutions))}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+          >
+            Apply Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { formatUnits, isHex, toHex } from 'viem';
+import type { ReadOutput, ReadRecord } from '../types';
+import { DocumentDuplicateIcon } from './icons';
+
+interface ReadResultPanelProps {
+  // Reads of one button, newest first.
+  records: ReadRecord[];
+  onDismiss: () => void;
+}
+
+type DisplayFormat = 'raw' | 'units' | 'hex';
+
+const isIntegerType = (type: string) => /^u?int\d*$/.test(type);
+
+const formatOutput = (output: ReadOutput, format: DisplayFormat, decimals: number): string => {
+  const { type, value } = output;
+  try {
+    if (isIntegerType(type) && value !== null) {
+      if (format === 'units') return formatUnits(BigInt(value), decimals);
+      if (format === 'hex') return toHex(BigInt(value));
+      return String(value);
+    }
+    if (format === 'hex' && (typeof value === 'string' || typeof value === 'boolean')) {
+      return typeof value === 'string' && isHex(value) ? value : toHex(value);
+    }
+  } catch {
+    // Fall through to the raw value if it cannot be converted.
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export const ReadResultPanel: React.FC<ReadResultPanelProps> = ({ records, onDismiss }) => {
+  // Display settings per output row, kept while the panel shows the same button.
+  const [formats, setFormats] = useState<Record<number, DisplayFormat>>({});
+  const [decimals, setDecimals] = useState<Record<number, number>>({});
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  const [latest, ...previous] = records;
+  if (!latest) return null;
+
+  const display = (output: ReadOutput, index: number) => formatOutput(output, formats[index] ?? 'raw', decimals[index] ?? 18);
+
+  const handleCopy = async (text: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy value', error);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg border border-gray-700">
+      <div className="flex items-center justify-between mb-2 border-b border-gray-700 pb-2">
+        <h3 className="text-lg font-semibold text-white capitalize">{latest.buttonKey}</h3>
+        <button
+          onClick={onDismiss}
+          className="text-gray-400 hover:text-white font-bold"
+          aria-label="Dismiss read result"
+        >
+          &times;
+        </button>
+      </div>
+      <div className="text-xs text-gray-400 mb-2 font-mono">
+        {latest.functionName}() at {new Date(latest.timestamp).toLocaleTimeString()}
+      </div>
+
+      <ul className="space-y-3">
+        {latest.outputs.map((output, index) => {
+          const text = display(output, index);
+          const format = formats[index] ?? 'raw';
+          return (
+            <li key={index} className="text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-gray-200 font-semibold truncate">
+                  {output.name} <span className="text-gray-500 font-normal font-mono text-xs">{output.type}</span>
+                </span>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <select
+                    value={format}
+                    onChange={(e) => setFormats(prev => ({ ...prev, [index]: e.target.value as DisplayFormat }))}
+                    className="p-1 bg-gray-900 text-gray-200 text-xs rounded-md border border-gray-700"
+                    aria-label={`Format of ${output.name}`}
+                  >
+                    <option value="raw">Raw</option>
+                    {isIntegerType(output.type) && <option value="units">Units</option>}
+                    <option value="hex">Hex</option>
+                  </select>
+                  {format === 'units' && (
+                    <input
+                      type="number"
+                      min={0}
+                      max={77}
+                      value={decimals[index] ?? 18}
+                      onChange={(e) => setDecimals(prev => ({ ...prev, [index]: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                      className="w-14 p-1 bg-gray-900 text-gray-200 text-xs rounded-md border border-gray-700"
+                      title="Decimals"
+                      aria-label={`Decimals of ${output.name}`}
+                    />
+                  )}
+                </div>
+              </div>
+              <div className="flex items-start gap-2 mt-1">
+                <code className="flex-grow p-2 bg-gray-900 rounded-md text-gray-200 break-all text-xs">{text}</code>
+                <button
+                  onClick={() => handleCopy(text, index)}
+                  className="flex items-center px-2 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
+                  title={copiedIndex === index ? 'Copied!' : 'Copy value'}
+                  aria-label={`Copy ${output.name}`}
+                >
+                  <DocumentDuplicateIcon className={`w-4 h-4 ${copiedIndex === index ? 'text-green-400' : ''}`} />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {previous.length > 0 && (
+        <details className="mt-3 text-xs text-gray-400">
+          <summary className="cursor-pointer hover:text-gray-200">Previous reads ({previous.length})</summary>
+          <ul className="mt-2 space-y-2 max-h-48 overflow-y-auto pr-2">
+            {previous.map(record => (
+              <li key={record.timestamp} className="border-t border-gray-700 pt-1">
+                <div className="text-gray-500">{new Date(record.timestamp).toLocaleTimeString()}</div>
+                {record.outputs.map((output, index) => (
+                  <div key={index} className="flex justify-between gap-2 font-mono">
+                    <span className="truncate">{output.name}</span>
+                    <span className="text-gray-300 break-all text-right">{display(output, index)}</span>
+                  </div>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
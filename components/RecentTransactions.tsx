@@ -0,0 +1,83 @@
+import React from 'react';
+import type { TransactionRecord, TransactionStatus } from '../types';
+import { ExternalLinkIcon } from './icons';
+import { EventLogList } from './EventLogList';
+
+interface RecentTransactionsProps {
+  transactions: TransactionRecord[];
+  onSpeedUp: (tx: TransactionRecord) => void;
+  onCancel: (tx: TransactionRecord) => void;
+}
+
+const statusClasses: Record<TransactionStatus, string> = {
+  pending: 'text-yellow-400 animate-pulse',
+  confirmed: 'text-green-400',
+  reverted: 'text-red-400',
+  failed: 'text-red-400',
+  replaced: 'text-gray-500',
+};
+
+const shortenHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-6)}`;
+
+export const RecentTransactions: React.FC<RecentTransactionsProps> = ({ transactions, onSpeedUp, onCancel }) => {
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg border border-gray-700">
+      <h3 className="text-lg font-semibold text-white mb-2 border-b border-gray-700 pb-2">Recent Transactions</h3>
+      <ul className="space-y-2 max-h-64 overflow-y-auto pr-2">
+        {transactions.map(tx => (
+          <li key={tx.hash} className="text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-200 font-semibold truncate">{tx.label}</span>
+              <span className={`ml-2 uppercase text-xs font-semibold ${statusClasses[tx.status]}`}>{tx.status}</span>
+            </div>
+            <div className="flex items-center justify-between text-xs text-gray-400 font-mono">
+              {tx.explorerUrl ? (
+                <a
+                  href={tx.explorerUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center text-blue-400 hover:text-blue-300"
+                  title="Open in block explorer"
+                >
+                  {shortenHash(tx.hash)}
+                  <ExternalLinkIcon className="w-3 h-3 ml-1" />
+                </a>
+              ) : (
+                <span title={tx.hash}>{shortenHash(tx.hash)}</span>
+              )}
+              {tx.blockNumber && (
+                <span>#{tx.blockNumber} · {tx.gasUsed} gas</span>
+              )}
+            </div>
+            {tx.events && tx.events.length > 0 && (
+              <details className="mt-1 text-xs text-gray-400">
+                <summary className="cursor-pointer hover:text-gray-200">{tx.events.length} event(s)</summary>
+                <div className="mt-1">
+                  <EventLogList events={tx.events} />
+                </div>
+              </details>
+            )}
+            {tx.status === 'pending' && (
+              <div className="flex gap-2 mt-1">
+                <button
+                  onClick={() => onSpeedUp(tx)}
+                  className="px-2 py-0.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                >
+                  Speed up
+                </button>
+                <button
+                  onClick={() => onCancel(tx)}
+                  className="px-2 py-0.5 text-xs bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import type { ButtonDiff, ButtonDiffStatus } from '../utils/settingsDiff';
+
+interface SettingsDiffListProps {
+  diffs: ButtonDiff[];
+}
+
+const statusClasses: Record<ButtonDiffStatus, string> = {
+  added: 'text-green-400',
+  removed: 'text-red-400',
+  changed: 'text-yellow-400',
+  unchanged: 'text-gray-500',
+};
+
+// Lists the buttons that differ between two configurations.
+export const SettingsDiffList: React.FC<SettingsDiffListProps> = ({ diffs }) => {
+  const differences = diffs.filter(diff => diff.status !== 'unchanged');
+  if (differences.length === 0) {
+    return <p className="text-sm text-gray-400">No differences.</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {differences.map(diff => (
+        <li key={diff.key} className="flex justify-between gap-4">
+          <span className="text-gray-200 capitalize truncate">{diff.key}</span>
+          <span className={`flex-shrink-0 font-mono text-xs ${statusClasses[diff.status]}`}>
+            {diff.status === 'changed' ? diff.changedFields.join(', ') : diff.status}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
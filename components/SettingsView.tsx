@@ -1,10 +1,17 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import type { Settings, VisibleButtons } from '../types';
+import type { ConfigImport, ConfigSnapshot, Settings, VisibleButtons } from '../types';
 import type { NotificationData } from './Notification';
 import presetsData from '../presets.json';
 import { ChevronDownIcon } from './icons';
 import { ProfileSelector } from './ProfileSelector';
+import { SnapshotsPanel } from './SnapshotsPanel';
+import { ShareModal } from './ShareModal';
+import { MergeReviewModal } from './MergeReviewModal';
+import { assertValidSettings } from '../utils/validation';
+import { migrateSettings } from '../utils/migrations';
+import { parseConfigFile } from '../utils/configTransfer';
+import { diffSettings } from '../utils/settingsDiff';
 
 interface Preset {
   name: string;
@@ -20,6 +27,17 @@ interface SettingsViewProps {
   setActiveProfile: (profile: string) => void;
   profileNames: string[];
   onSaveProfile: (profileName: string, newVisibility: VisibleButtons) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  snapshots: ConfigSnapshot[];
+  onCreateSnapshot: (name: string) => void;
+  onRestoreSnapshot: (snapshot: ConfigSnapshot) => void;
+  onDeleteSnapshot: (snapshot: ConfigSnapshot) => void;
+  onExportConfig: () => void;
+  // Opens the import preview for a configuration read from a file.
+  onImportConfig: (configImport: ConfigImport) => void;
 }
 
 export const SettingsView: React.FC<SettingsViewProps> = ({ 
@@ -30,7 +48,17 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
   activeProfile,
   setActiveProfile,
   profileNames,
-  onSaveProfile
+  onSaveProfile,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  snapshots,
+  onCreateSnapshot,
+  onRestoreSnapshot,
+  onDeleteSnapshot,
+  onExportConfig,
+  onImportConfig
 }) => {
   const [jsonText, setJsonText] = useState('');
   const [draftVisibility, setDraftVisibility] = useState<VisibleButtons>({});
@@ -39,6 +67,10 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
   const [isPresetDropdownOpen, setPresetDropdownOpen] = useState(false);
   const [pendingPresetUrl, setPendingPresetUrl] = useState<string | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+  // A fetched preset waiting for the user to review how it merges.
+  const [pendingMerge, setPendingMerge] = useState<Settings | null>(null);
 
   useEffect(() => {
     setJsonText(JSON.stringify(settings, null, 2));
@@ -76,33 +108,21 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
     try {
       const response = await fetch(url);
       if (!response.ok) throw new Error(`Network response was not ok: ${response.statusText}`);
-      const presetSettings = await response.json();
+      // Rejects the whole preset, so a broken button is not found only when it is clicked.
+      const presetSettings = assertValidSettings(migrateSettings(await response.json()));
 
       if (mode === 'replace') {
         setSettings(presetSettings);
-        showNotification('Preset loaded and applied successfully.', 'success');
-      } else { // Merge logic
-        const newSettings = { ...settings };
-        let mergedCount = 0;
-        Object.keys(presetSettings).forEach(key => {
-          if (!newSettings.hasOwnProperty(key)) {
-            newSettings[key] = presetSettings[key];
-            mergedCount++;
-          }
-        });
-        
-        setSettings(newSettings);
-
-        if (mergedCount > 0) {
-            showNotification(`${mergedCount} new button(s) merged and applied.`, 'success');
-        } else {
-            showNotification('No new buttons to merge. Your configuration is up to date.', 'info');
-        }
+        showNotification('Preset loaded and applied successfully. Press Ctrl+Z to undo.', 'success');
+      } else if (diffSettings(settings, presetSettings).every(diff => diff.status === 'unchanged' || diff.status === 'removed')) {
+        showNotification('No new or changed buttons to merge. Your configuration is up to date.', 'info');
+      } else {
+        setPendingMerge(presetSettings);
       }
 
-    } catch (error) {
+    } catch (error: any) {
       console.error("Failed to fetch or process preset:", error);
-      showNotification('Failed to process the selected preset.', 'error');
+      showNotification(`Failed to process the selected preset: ${error.message}`, 'error', 8000);
     } finally {
       setIsPresetsLoading(false);
     }
@@ -115,14 +135,37 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
       if (typeof newSettings !== 'object' || newSettings === null || Array.isArray(newSettings)) {
         throw new Error("Invalid JSON format. Must be an object.");
       }
-      setSettings(newSettings);
+      setSettings(assertValidSettings(newSettings));
       showNotification('Settings saved successfully! New visibility defaults applied.', 'success');
     } catch (error: any) {
       console.error(error);
-      showNotification(`Invalid JSON: ${error.message}`, 'error');
+      const message = error instanceof SyntaxError ? `Invalid JSON: ${error.message}` : `Invalid configuration: ${error.message}`;
+      showNotification(message, 'error', 8000);
     }
   };
   
+  const handleApplyMerge = (merged: Settings) => {
+    const addedCount = Object.keys(merged).filter(key => !(key in settings)).length;
+    const updatedCount = Object.keys(settings).filter(key => merged[key] !== settings[key]).length;
+    setPendingMerge(null);
+    setSettings(merged);
+    showNotification(`Merged ${addedCount} new and ${updatedCount} updated button(s). Press Ctrl+Z to undo.`, 'success');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so choosing the same file again still triggers a change.
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImportConfig(parseConfigFile(await file.text()));
+    } catch (error: any) {
+      console.error(error);
+      const message = error instanceof SyntaxError ? 'Invalid JSON format.' : error.message;
+      showNotification(`Failed to import "${file.name}": ${message}`, 'error', 8000);
+    }
+  };
+
   const handleVisibilityChange = (key: string, isVisible: boolean) => {
     setDraftVisibility(prev => ({
       ...prev,
@@ -203,6 +246,52 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
         </div>
       </div>
 
+      <div>
+        <h2 className="text-2xl font-bold mb-4">Import & Export</h2>
+        <div className="bg-gray-800 p-6 rounded-lg flex flex-col sm:flex-row gap-4">
+          <button
+            onClick={onExportConfig}
+            className="w-full sm:w-1/3 bg-gray-700 text-white px-6 py-3 rounded-md hover:bg-gray-600 transition-colors duration-200 font-semibold"
+          >
+            Export File
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full sm:w-1/3 bg-gray-700 text-white px-6 py-3 rounded-md hover:bg-gray-600 transition-colors duration-200 font-semibold"
+          >
+            Import File
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+          <button
+            onClick={() => setIsShareModalOpen(true)}
+            className="w-full sm:w-1/3 bg-blue-600 text-white px-6 py-3 rounded-md hover:bg-blue-700 transition-colors duration-200 font-semibold"
+          >
+            Share...
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <h2 className="text-2xl font-bold mb-4">History & Snapshots</h2>
+        <SnapshotsPanel
+          settings={settings}
+          snapshots={snapshots}
+          onCreateSnapshot={onCreateSnapshot}
+          onRestoreSnapshot={onRestoreSnapshot}
+          onDeleteSnapshot={onDeleteSnapshot}
+          onUndo={onUndo}
+          onRedo={onRedo}
+          canUndo={canUndo}
+          canRedo={canRedo}
+        />
+      </div>
+
       <div>
         <h2 className="text-2xl font-bold mb-4">Button Configuration (JSON)</h2>
         <div className="bg-gray-800 p-4 rounded-lg">
@@ -223,6 +312,25 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
         </div>
       </div>
       
+      <ShareModal
+        isOpen={isShareModalOpen}
+        onClose={() => setIsShareModalOpen(false)}
+        settings={settings}
+        activeProfile={activeProfile}
+        visibleButtons={visibleButtons}
+        showNotification={showNotification}
+      />
+
+      {pendingMerge && (
+        <MergeReviewModal
+          source="preset"
+          settings={settings}
+          incoming={pendingMerge}
+          onApply={handleApplyMerge}
+          onCancel={() => setPendingMerge(null)}
+        />
+      )}
+
       {pendingPresetUrl && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
           <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-md p-6 space-y-4 border border-gray-700">
@@ -235,7 +343,7 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                 </div>
                 <div className="p-3 bg-gray-900 rounded-md border border-gray-700">
                     <p className="text-md font-semibold text-indigo-400">Merge</p>
-                    <p className="text-sm text-gray-400 mt-1">Add new buttons from the preset without overwriting your existing ones.</p>
+                    <p className="text-sm text-gray-400 mt-1">Review new and changed buttons, and choose per button which version to keep.</p>
                 </div>
             </div>
             <div className="flex justify-end gap-4 pt-2">
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import type { Settings, VisibleButtons } from '../types';
+import type { NotificationData } from './Notification';
+import { createShareUrl } from '../utils/configTransfer';
+import { DocumentDuplicateIcon } from './icons';
+
+interface ShareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: Settings;
+  activeProfile: string;
+  visibleButtons: VisibleButtons;
+  showNotification: (message: string, type: NotificationData['type'], duration?: number) => void;
+}
+
+// Packs the buttons of a profile, or a hand-picked selection, into a share link.
+export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, settings, activeProfile, visibleButtons, showNotification }) => {
+  const [mode, setMode] = useState<'profile' | 'selection'>('profile');
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [shareUrl, setShareUrl] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  if (!isOpen) return null;
+
+  const allKeys = Object.keys(settings);
+  const profileKeys = allKeys.filter(key => visibleButtons[key] !== false);
+  const keysToShare = mode === 'profile' ? profileKeys : allKeys.filter(key => selectedKeys.includes(key));
+
+  const resetLink = () => {
+    setShareUrl('');
+    setCopied(false);
+  };
+
+  const toggleKey = (key: string) => {
+    setSelectedKeys(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+    resetLink();
+  };
+
+  const handleCreateLink = async () => {
+    const shared: Settings = Object.fromEntries(keysToShare.map(key => [key, settings[key]]));
+    try {
+      const profile = mode === 'profile'
+        ? { name: activeProfile, visibility: Object.fromEntries(keysToShare.map(key => [key, true])) }
+        : undefined;
+      setShareUrl(await createShareUrl(shared, profile));
+    } catch (error: any) {
+      console.error(error);
+      showNotification(`Failed to create the link: ${error.message}`, 'error');
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy link', error);
+    }
+  };
+
+  const handleClose = () => {
+    resetLink();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-lg p-6 space-y-4 border border-gray-700">
+        <h2 className="text-xl font-bold text-white">Share Buttons</h2>
+
+        <div className="flex gap-4 text-sm text-gray-300">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="radio" checked={mode === 'profile'} onChange={() => { setMode('profile'); resetLink(); }} />
+            {activeProfile} ({profileKeys.length} buttons)
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="radio" checked={mode === 'selection'} onChange={() => { setMode('selection'); resetLink(); }} />
+            Selected buttons
+          </label>
+        </div>
+
+        {mode === 'selection' && (
+          <div className="grid grid-cols-2 gap-2 p-3 bg-gray-900 rounded-md border border-gray-700 max-h-48 overflow-y-auto">
+            {allKeys.map(key => (
+              <label key={key} className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedKeys.includes(key)}
+                  onChange={() => toggleKey(key)}
+                  className="h-4 w-4 text-blue-600 bg-gray-700 border-gray-600 rounded"
+                />
+                <span className="capitalize truncate">{key}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {shareUrl && (
+          <div className="flex items-start gap-2">
+            <input
+              type="text"
+              readOnly
+              value={shareUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-grow p-2 bg-gray-900 text-gray-200 font-mono text-xs rounded-md border border-gray-700"
+            />
+            <button
+              onClick={handleCopy}
+              className="flex items-center px-2 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
+              title={copied ? 'Copied!' : 'Copy link'}
+              aria-label="Copy link"
+            >
+              <DocumentDuplicateIcon className={`w-4 h-4 ${copied ? 'text-green-400' : ''}`} />
+            </button>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-4 pt-2">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleCreateLink}
+            disabled={keysToShare.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Create Link
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import type { SignatureResult } from '../types';
+import { DocumentDuplicateIcon } from './icons';
+
+interface SignaturePanelProps {
+  result: SignatureResult;
+  onDismiss: () => void;
+}
+
+export const SignaturePanel: React.FC<SignaturePanelProps> = ({ result, onDismiss }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(result.signature);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy signature', error);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg border border-gray-700">
+      <div className="flex items-center justify-between mb-2 border-b border-gray-700 pb-2">
+        <h3 className="text-lg font-semibold text-white capitalize">{result.buttonKey}</h3>
+        <button
+          onClick={onDismiss}
+          className="text-gray-400 hover:text-white font-bold"
+          aria-label="Dismiss signature"
+        >
+          &times;
+        </button>
+      </div>
+      <div className="space-y-2 text-sm">
+        <div className="text-xs text-gray-400">
+          {result.method} by <span className="font-mono">{result.signer}</span>
+        </div>
+        <details className="text-xs text-gray-400">
+          <summary className="cursor-pointer hover:text-gray-200">Signed message</summary>
+          <pre className="mt-1 p-2 bg-gray-900 rounded-md whitespace-pre-wrap break-all max-h-40 overflow-y-auto">{result.payload}</pre>
+        </details>
+        <div className="flex items-start gap-2">
+          <code className="flex-grow p-2 bg-gray-900 rounded-md text-gray-200 break-all text-xs">{result.signature}</code>
+          <button
+            onClick={handleCopy}
+            className="flex items-center px-2 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
+            title="Copy signature"
+            aria-label="Copy signature"
+          >
+            <DocumentDuplicateIcon className="w-4 h-4" />
+          </button>
+        </div>
+        {copied && <div className="text-xs text-green-400">Copied to clipboard.</div>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import type { ConfigSnapshot, Settings } from '../types';
+import { migrateSettings } from '../utils/migrations';
+import { diffSettings } from '../utils/settingsDiff';
+import { SettingsDiffList } from './SettingsDiffList';
+
+interface SnapshotsPanelProps {
+  settings: Settings;
+  snapshots: ConfigSnapshot[];
+  onCreateSnapshot: (name: string) => void;
+  onRestoreSnapshot: (snapshot: ConfigSnapshot) => void;
+  onDeleteSnapshot: (snapshot: ConfigSnapshot) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({
+  settings,
+  snapshots,
+  onCreateSnapshot,
+  onRestoreSnapshot,
+  onDeleteSnapshot,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+}) => {
+  const [snapshotName, setSnapshotName] = useState('');
+  // The snapshot whose differences to the current configuration are shown.
+  const [diffedSnapshot, setDiffedSnapshot] = useState<ConfigSnapshot | null>(null);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = snapshotName.trim();
+    if (!name) return;
+    onCreateSnapshot(name);
+    setSnapshotName('');
+  };
+
+  const renderDiff = (snapshot: ConfigSnapshot) => {
+    try {
+      return <SettingsDiffList diffs={diffSettings(migrateSettings(snapshot.settings), settings)} />;
+    } catch (error: any) {
+      return <p className="text-sm text-red-400">{error.message}</p>;
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            Redo
+          </button>
+        </div>
+        <form onSubmit={handleCreate} className="flex gap-2 flex-grow">
+          <input
+            type="text"
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            placeholder='Snapshot name, e.g. "before airdrop season"'
+            className="flex-grow p-2 bg-gray-900 text-gray-200 rounded-md border border-gray-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!snapshotName.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Take Snapshot
+          </button>
+        </form>
+      </div>
+
+      {snapshots.length > 0 ? (
+        <ul className="space-y-2">
+          {snapshots.map(snapshot => (
+            <li key={`${snapshot.name}-${snapshot.timestamp}`} className="p-3 bg-gray-900 rounded-md border border-gray-700">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div>
+                  <span className="text-gray-200 font-semibold">{snapshot.name}</span>
+                  <span className="ml-2 text-xs text-gray-500">
+                    {new Date(snapshot.timestamp).toLocaleString()} · {Object.keys(snapshot.settings.data).length} buttons
+                  </span>
+                </div>
+                <div className="flex gap-2 text-sm">
+                  <button
+                    onClick={() => setDiffedSnapshot(prev => (prev === snapshot ? null : snapshot))}
+                    className="px-3 py-1 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors"
+                  >
+                    {diffedSnapshot === snapshot ? 'Hide Diff' : 'Diff'}
+                  </button>
+                  <button
+                    onClick={() => onRestoreSnapshot(snapshot)}
+                    className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => onDeleteSnapshot(snapshot)}
+                    className="px-3 py-1 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+              {diffedSnapshot === snapshot && (
+                <div className="mt-3 pt-3 border-t border-gray-700">
+                  <p className="text-xs text-gray-500 mb-2">Changes since this snapshot:</p>
+                  {renderDiff(snapshot)}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-400 text-sm">No snapshots yet. Take one before loading a preset or making big changes.</p>
+      )}
+    </div>
+  );
+};
@@ -1,27 +1,203 @@
 
 
-import { useCallback } from 'react';
-import type { ButtonConfig, ReadCall } from '../types';
+import { useCallback, useRef, useState } from 'react';
+import type { ApprovalChoice, ApprovalRequest, ButtonConfig, DecodedEvent, DeploymentRecord, ReadCall, ReadOutput, ReadRecord, SignatureResult, StepRef, StepStatus, TransactionPreview, TransactionRecord } from '../types';
 import type { NotificationData } from '../components/Notification';
 import { useAccount, useSendTransaction, useConfig } from 'wagmi';
-import { readContract, getWalletClient } from '@wagmi/core';
-import { encodeFunctionData, encodeDeployData, type Abi, type AbiFunction } from 'viem';
+import { readContract, multicall, getBlockNumber, getBalance, getWalletClient, getPublicClient, waitForTransactionReceipt, simulateContract, call, estimateGas, estimateFeesPerGas, getGasPrice, getCapabilities, sendCalls, waitForCallsStatus, signMessage, signTypedData, getBytecode } from '@wagmi/core';
+import { encodeFunctionData, encodeDeployData, parseEventLogs, erc20Abi, isAddress, isHex, keccak256, maxUint256, WaitForTransactionReceiptTimeoutError, type Abi, type AbiFunction, type AbiParameter, type TransactionReceipt } from 'viem';
+import { getExplorerTxUrl, getKnownChain } from '../utils/chains';
+import { decodeRevertReason, formatErrorMessage } from '../utils/revert';
+import { isTokenAmount, parseAmount, type TokenUnits } from '../utils/units';
+import { selectReadOutput } from '../utils/readValues';
+import { decodeCalldata } from '../utils/calldata';
+import { toSignableTypedData } from '../utils/typedData';
+import { DETERMINISTIC_DEPLOYER, getCreate2Deployment, normalizeSalt } from '../utils/create2';
+import { createRandomValue, findPlaceholders, interpolatePlaceholders, resolvePlaceholder, resolvePlaceholdersDeep, type PlaceholderContext } from '../utils/placeholders';
+
+interface TransactionParams {
+  to?: `0x${string}`;
+  value: bigint;
+  data?: `0x${string}`;
+  gas?: bigint;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  chainId: number;
+}
+
+interface SentTransaction {
+  hash: `0x${string}`;
+  label?: string;
+  to?: `0x${string}`;
+  value: bigint;
+  data?: `0x${string}`;
+  args: any[];
+  // For CREATE2 deployments, where the receipt has no contractAddress.
+  deployedAddress?: `0x${string}`;
+}
+
+// Canonical Multicall3 deployment, used when a chain definition does not list one.
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+interface ReadRequest {
+  address: `0x${string}`;
+  abi: Abi;
+  functionName: string;
+  args: any[];
+}
+
+type ReadResult = { status: 'success'; result: any } | { status: 'failure'; error: Error };
+
+// Returns a copy of `data` with the value at `path` replaced.
+const setByPath = (data: any, path: (string | number)[], value: any): any => {
+  if (path.length === 0) return value;
+  const [head, ...tail] = path;
+  const copy = Array.isArray(data) ? [...data] : { ...data };
+  copy[head as any] = setByPath(copy[head as any], tail, value);
+  return copy;
+};
+
+// Replacement transactions must raise fees by at least 10%; 12.5% leaves some margin.
+const bumpFee = (fee: bigint) => (fee * 1125n) / 1000n + 1n;
+
+// Shown for a token whose metadata was not read: amounts stay in base units.
+const BASE_TOKEN_UNITS: TokenUnits = { symbol: 'tokens', decimals: 0 };
+
+const bigintReplacer = (_key: string, value: any) => (typeof value === 'bigint' ? value.toString() : value);
 
 const formatReadData = (data: any): string => {
   if (data === null || data === undefined) {
     return 'null';
   }
-  return JSON.stringify(
-    data,
-    (_key, value) => (typeof value === 'bigint' ? value.toString() : value),
-    2
-  );
+  return JSON.stringify(data, bigintReplacer, 2);
+};
+
+const MAX_READS_PER_BUTTON = 10;
+
+// Labels a read result with the names and types of the function's outputs.
+const buildReadOutputs = (data: any, funcAbi?: AbiFunction): ReadOutput[] => {
+  const toJson = (value: any) => (value === undefined ? null : JSON.parse(JSON.stringify(value, bigintReplacer)));
+  const flatten = (param: AbiParameter, name: string, value: any): ReadOutput[] => {
+    if (param.type === 'tuple' && 'components' in param && value !== null && typeof value === 'object') {
+      return param.components.flatMap((component, index) =>
+        flatten(component, `${name}.${component.name || index}`, Array.isArray(value) ? value[index] : value[component.name ?? index])
+      );
+    }
+    return [{ name, type: param.type, value: toJson(value) }];
+  };
+
+  const outputs = funcAbi?.outputs ?? [];
+  if (outputs.length <= 1) {
+    return flatten(outputs[0] ?? { type: 'unknown' }, outputs[0]?.name || 'result', data);
+  }
+  // viem returns functions with several outputs as a positional array.
+  return outputs.flatMap((output, index) => flatten(output, output.name || `[${index}]`, data?.[index]));
+};
+
+// Walks a dot-separated path such as "events.Transfer.tokenId" or "logs[0].args".
+const getByPath = (data: any, path: string | undefined): any => {
+  if (!path) return data;
+  const segments = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+  return segments.reduce((acc, segment) => {
+    if (acc === null || acc === undefined || !(segment in Object(acc))) {
+      throw new Error(`Path "${path}" not found (missing "${segment}").`);
+    }
+    return acc[segment];
+  }, data);
+};
+
+// The ABI to decode a button's receipt logs with: its own ABI plus 'eventsAbi'.
+const getEventsAbi = (config: ButtonConfig): Abi => [...((config.abi || []) as Abi), ...((config.eventsAbi || []) as Abi)];
+
+// Decodes a receipt's logs against an ABI, skipping logs it does not describe.
+const decodeReceiptEvents = (receipt: TransactionReceipt, abi: Abi): DecodedEvent[] => {
+  if (abi.length === 0) return [];
+  return parseEventLogs({ abi, logs: receipt.logs }).map(log => ({
+    name: log.eventName,
+    address: log.address,
+    args: JSON.parse(JSON.stringify(log.args ?? {}, bigintReplacer)),
+  }));
+};
+
+// Builds the output of a mined transaction step that later steps can reference.
+const buildTransactionOutput = (receipt: TransactionReceipt, abi: Abi) => {
+  const logs = abi.length > 0 ? parseEventLogs({ abi, logs: receipt.logs }) : [];
+  const events: Record<string, any> = {};
+  for (const log of logs) {
+    // The first occurrence of an event wins; use 'logs' to reach later ones.
+    if (log.eventName && !(log.eventName in events)) {
+      events[log.eventName] = log.args;
+    }
+  }
+  return { ...receipt, logs, events };
 };
 
-export const useChainsawActions = (showNotification: (message: string, type: NotificationData['type'], duration?: number) => void) => {
+export const useChainsawActions = (
+  showNotification: (message: string, type: NotificationData['type'], duration?: number) => void,
+  onTransactionUpdate?: (record: TransactionRecord) => void,
+  onDeployment?: (deployment: DeploymentRecord) => void
+) => {
   const { address, chainId, isConnected } = useAccount();
-  const { sendTransaction } = useSendTransaction();
+  const { sendTransactionAsync } = useSendTransaction();
   const wagmiConfig = useConfig();
+  const [transactions, setTransactions] = useState<TransactionRecord[]>([]);
+  // The last reads of each read-only button, newest first.
+  const [reads, setReads] = useState<Record<string, ReadRecord[]>>({});
+  // The transaction waiting for the user's approval, shown in a confirm dialog.
+  const [pendingConfirmation, setPendingConfirmation] = useState<TransactionPreview | null>(null);
+  const confirmationResolver = useRef<((approved: boolean) => void) | null>(null);
+  // An allowance that must be approved before the transaction, and how much to approve.
+  const [pendingApproval, setPendingApproval] = useState<ApprovalRequest | null>(null);
+  const approvalResolver = useRef<((choice: ApprovalChoice | null) => void) | null>(null);
+  const tokenUnitsCache = useRef(new Map<string, TokenUnits>());
+  // Whether Multicall3 is deployed, per chain id.
+  const multicallSupport = useRef(new Map<number, boolean>());
+
+  const requestConfirmation = useCallback((preview: TransactionPreview) => {
+    return new Promise<boolean>(resolve => {
+      confirmationResolver.current = resolve;
+      setPendingConfirmation(preview);
+    });
+  }, []);
+
+  const resolveConfirmation = useCallback((approved: boolean) => {
+    confirmationResolver.current?.(approved);
+    confirmationResolver.current = null;
+    setPendingConfirmation(null);
+  }, []);
+
+  const requestApproval = useCallback((request: ApprovalRequest) => {
+    return new Promise<ApprovalChoice | null>(resolve => {
+      approvalResolver.current = resolve;
+      setPendingApproval(request);
+    });
+  }, []);
+
+  const resolveApproval = useCallback((choice: ApprovalChoice | null) => {
+    approvalResolver.current?.(choice);
+    approvalResolver.current = null;
+    setPendingApproval(null);
+  }, []);
+
+  const saveTransaction = useCallback((record: TransactionRecord) => {
+    setTransactions(prev => [record, ...prev.filter(tx => tx.hash !== record.hash)].slice(0, 10));
+    onTransactionUpdate?.(record);
+  }, [onTransactionUpdate]);
+
+  const recordRead = useCallback((buttonKey: string, execConfig: ButtonConfig, data: any) => {
+    const funcAbi = (execConfig.abi as Abi | undefined)?.find(
+      (item): item is AbiFunction => item.type === 'function' && item.name === execConfig.functionName
+    );
+    const record: ReadRecord = {
+      buttonKey,
+      chainId: execConfig.id as number,
+      functionName: execConfig.functionName || 'read',
+      outputs: buildReadOutputs(data, funcAbi),
+      timestamp: Date.now(),
+    };
+    setReads(prev => ({ ...prev, [buttonKey]: [record, ...(prev[buttonKey] || [])].slice(0, MAX_READS_PER_BUTTON) }));
+  }, []);
 
   const switchNetworkIfNeeded = useCallback(async (targetChainId: number, chainConfig?: ButtonConfig) => {
     if (!isConnected || !address || chainId === targetChainId) {
@@ -87,6 +263,20 @@ export const useChainsawActions = (showNotification: (message: string, type: Not
     return typeof arg === 'object' && arg !== null && '$read' in arg;
   };
 
+  const isStepRef = (arg: any): arg is StepRef => {
+    return typeof arg === 'object' && arg !== null && '$step' in arg;
+  };
+
+  const resolveStepRef = (ref: StepRef, stepOutputs: any[] | undefined): any => {
+    if (!stepOutputs) {
+      throw new Error('$step references can only be used inside chained buttons.');
+    }
+    if (!Number.isInteger(ref.$step) || ref.$step < 0 || ref.$step >= stepOutputs.length) {
+      throw new Error(`$step ${ref.$step} must refer to an earlier step.`);
+    }
+    return getByPath(stepOutputs[ref.$step], ref.path);
+  };
+
   const getExecutionConfig = useCallback((config: ButtonConfig): ButtonConfig => {
     const executionConfig = { ...config };
     if (executionConfig.abi && !executionConfig.functionName) {
@@ -103,54 +293,130 @@ export const useChainsawActions = (showNotification: (message: string, type: Not
     return executionConfig;
   }, []);
 
-  const extractSingleValue = useCallback((result: any, funcAbi: AbiFunction): any => {
-    if (!funcAbi.outputs || funcAbi.outputs.length !== 1) {
-      throw new Error(`$read call must point to a function with exactly one output. Found ${funcAbi.outputs?.length ?? 0}.`);
-    }
-    
-    if (typeof result !== 'object' || result === null) {
-      return result;
+  // Reads several contracts on one chain with a single Multicall3 aggregate3 call.
+  // Falls back to individual reads when Multicall3 is not deployed on that chain.
+  const readContractsBatched = useCallback(async (targetChainId: number, requests: ReadRequest[]): Promise<ReadResult[]> => {
+    const readIndividually = () => Promise.all(requests.map(async (request): Promise<ReadResult> => {
+      try {
+        // FIX: Add missing 'authorizationList' property to satisfy wagmi's ReadContractParameters type.
+        const result = await readContract(wagmiConfig, { ...request, chainId: targetChainId, authorizationList: undefined });
+        return { status: 'success', result };
+      } catch (error: any) {
+        return { status: 'failure', error };
+      }
+    }));
+
+    if (requests.length === 1) {
+      return readIndividually();
     }
 
-    if (Array.isArray(result)) {
-      return result[0];
+    const multicallAddress = getKnownChain(targetChainId)?.contracts?.multicall3?.address ?? MULTICALL3_ADDRESS;
+    // With allowFailure, a missing Multicall3 does not throw: every entry just
+    // fails. So look for its code first, once per chain.
+    if (!multicallSupport.current.has(targetChainId)) {
+      try {
+        const code = await getBytecode(wagmiConfig, { address: multicallAddress, chainId: targetChainId });
+        multicallSupport.current.set(targetChainId, !!code && code !== '0x');
+      } catch (error) {
+        console.warn(`Could not check for Multicall3 on chain ${targetChainId}, reading individually.`, error);
+        return readIndividually();
+      }
     }
-    
-    const outputDef = funcAbi.outputs[0];
-    if (outputDef.name && outputDef.name in result) {
-      return (result as Record<string, any>)[outputDef.name];
+    if (!multicallSupport.current.get(targetChainId)) {
+      return readIndividually();
     }
 
-    const keys = Object.keys(result);
-    if (keys.length === 1) {
-      return (result as Record<string, any>)[keys[0]];
+    try {
+      const results = await multicall(wagmiConfig, {
+        chainId: targetChainId,
+        contracts: requests,
+        allowFailure: true,
+        multicallAddress,
+      });
+      return results as ReadResult[];
+    } catch (error) {
+      console.warn(`Multicall3 call failed on chain ${targetChainId}, reading individually.`, error);
+      return readIndividually();
     }
+  }, [wagmiConfig]);
 
-    throw new Error('Failed to extract a single primitive value from read result object.');
-  }, []);
+  // Reads an ERC-20 token's symbol and decimals once per chain and address.
+  const getTokenUnits = useCallback(async (targetChainId: number, token: `0x${string}`): Promise<TokenUnits> => {
+    const cacheKey = `${targetChainId}:${token.toLowerCase()}`;
+    const cached = tokenUnitsCache.current.get(cacheKey);
+    if (cached) return cached;
+
+    const [symbol, decimals] = await readContractsBatched(targetChainId, [
+      { address: token, abi: erc20Abi, functionName: 'symbol', args: [] },
+      { address: token, abi: erc20Abi, functionName: 'decimals', args: [] },
+    ]);
+    if (symbol.status === 'failure') throw symbol.error;
+    if (decimals.status === 'failure') throw decimals.error;
+    const units = { symbol: String(symbol.result), decimals: Number(decimals.result) };
+    tokenUnitsCache.current.set(cacheKey, units);
+    return units;
+  }, [readContractsBatched]);
+
+  // Collects the values for the placeholders used in `data`. Block number and
+  // balance are only fetched when referenced.
+  const createPlaceholderContext = useCallback(async (targetChainId: number, data: any): Promise<PlaceholderContext> => {
+    if (!address) throw new Error('Wallet not connected.');
+    const used = findPlaceholders(data);
+    const [blockNumber, nativeBalance] = await Promise.all([
+      used.has('blockNumber') ? getBlockNumber(wagmiConfig, { chainId: targetChainId }) : undefined,
+      used.has('nativeBalance') ? getBalance(wagmiConfig, { address, chainId: targetChainId }).then(balance => balance.value) : undefined,
+    ]);
+    return {
+      userAddress: address,
+      chainId: targetChainId,
+      now: Math.floor(Date.now() / 1000),
+      blockNumber,
+      nativeBalance,
+      random: createRandomValue(),
+    };
+  }, [address, wagmiConfig]);
 
+  // Resolves every $read in args, including nested ones and those inside tuples.
+  // Reads whose own args are already resolved are fetched together in one
+  // multicall; reads that depend on them follow in the next round. Errors are
+  // shown in a notification unless an onError callback takes them instead.
   const processArgsForReads = useCallback(async (
     args: any[] | undefined,
-    parentConfig: ButtonConfig
+    parentConfig: ButtonConfig,
+    stepOutputs?: any[],
+    context?: PlaceholderContext,
+    onError?: (message: string) => void
   ): Promise<any[] | null> => {
+    const reportError = onError ?? ((message: string) => showNotification(message, 'error'));
     if (!args) return [];
     if (!address) {
-      showNotification('Wallet not connected.', 'error');
+      reportError('Wallet not connected.');
+      return null;
+    }
+
+    let placeholderContext: PlaceholderContext;
+    try {
+      placeholderContext = context ?? await createPlaceholderContext(parentConfig.id as number, args);
+    } catch (error: any) {
+      reportError(`Placeholder error: ${formatErrorMessage(error)}`);
       return null;
     }
 
-    const deepReplaceUserAddress = (data: any): any => {
+    const deepResolvePlaceholders = (data: any): any => {
       if (typeof data === 'string') {
-        return data === '$userAddress' ? address : data;
+        return resolvePlaceholder(data, placeholderContext);
       }
       if (Array.isArray(data)) {
-        return data.map(item => deepReplaceUserAddress(item));
+        return data.map(item => deepResolvePlaceholders(item));
+      }
+      if (isStepRef(data)) {
+        return resolveStepRef(data, stepOutputs);
       }
       if (typeof data === 'object' && data !== null && !isReadCall(data)) {
         const newData: { [key: string]: any } = {};
         for (const key in data) {
           if (Object.prototype.hasOwnProperty.call(data, key)) {
-            newData[key] = deepReplaceUserAddress(data[key]);
+            newData[key] = deepResolvePlaceholders(data[key]);
           }
         }
         return newData;
@@ -158,66 +424,86 @@ export const useChainsawActions = (showNotification: (message: string, type: Not
       return data;
     };
 
-    const processedArgs = [];
-    for (const arg of args) {
-      if (isReadCall(arg)) {
-        const readCallConfig = getExecutionConfig({
-          ...arg.$read,
-          id: parentConfig.id,
-          address: arg.$read.address || parentConfig.address,
-          color: parentConfig.color,
-          value: parentConfig.value,
-        });
-        
-        if (!readCallConfig.functionName) {
-            showNotification(`Function name could not be determined from ABI for $read call.`, 'error');
-            return null;
-        }
-
-        const abi = readCallConfig.abi as Abi;
-        const funcAbi = abi.find(
-          (item): item is AbiFunction => item.type === 'function' && item.name === readCallConfig.functionName
-        );
+    const containsReadCall = (data: any): boolean => {
+      if (isReadCall(data)) return true;
+      if (Array.isArray(data)) return data.some(containsReadCall);
+      if (typeof data === 'object' && data !== null && !isStepRef(data)) return Object.values(data).some(containsReadCall);
+      return false;
+    };
 
-        if (!funcAbi) {
-          showNotification(`Function '${readCallConfig.functionName}' not found in ABI for $read call.`, 'error');
-          return null;
+    // Collects the $read calls whose own args contain no further $read.
+    const collectReadyReads = (data: any, path: (string | number)[], found: { path: (string | number)[]; read: ReadCall['$read'] }[]) => {
+      if (isReadCall(data)) {
+        if (containsReadCall(data.$read.args)) {
+          collectReadyReads(data.$read.args, [...path, '$read', 'args'], found);
+        } else {
+          found.push({ path, read: data.$read });
         }
+      } else if (Array.isArray(data)) {
+        data.forEach((item, index) => collectReadyReads(item, [...path, index], found));
+      } else if (typeof data === 'object' && data !== null && !isStepRef(data)) {
+        Object.keys(data).forEach(key => collectReadyReads(data[key], [...path, key], found));
+      }
+    };
 
-        const processedReadArgs = await processArgsForReads(arg.$read.args, parentConfig);
-        if (processedReadArgs === null) return null;
-
-        const networkReady = await switchNetworkIfNeeded(parentConfig.id as number, parentConfig);
-        if (!networkReady) return null;
+    let resolvedArgs: any[] = args;
+    try {
+      while (true) {
+        const ready: { path: (string | number)[]; read: ReadCall['$read'] }[] = [];
+        collectReadyReads(resolvedArgs, [], ready);
+        if (ready.length === 0) break;
 
-        try {
-          // FIX: Add missing 'authorizationList' property to satisfy wagmi's ReadContractParameters type.
-          const readResult = await readContract(wagmiConfig, {
+        const prepared = ready.map(({ read }) => {
+          const readCallConfig = getExecutionConfig({
+            ...read,
+            id: parentConfig.id,
+            address: read.address || parentConfig.address,
+            color: parentConfig.color,
+            value: parentConfig.value,
+          });
+          if (!readCallConfig.functionName) {
+            throw new Error('Function name could not be determined from ABI for $read call');
+          }
+          const abi = readCallConfig.abi as Abi;
+          const funcAbi = abi.find(
+            (item): item is AbiFunction => item.type === 'function' && item.name === readCallConfig.functionName
+          );
+          if (!funcAbi) {
+            throw new Error(`Function '${readCallConfig.functionName}' not found in ABI for $read call`);
+          }
+          const request: ReadRequest = {
             address: readCallConfig.address as `0x${string}`,
-            abi: readCallConfig.abi as Abi,
+            abi,
             functionName: readCallConfig.functionName,
-            args: processedReadArgs,
-            chainId: parentConfig.id as number,
-            authorizationList: undefined,
-          });
-          
-          const finalValue = extractSingleValue(readResult, funcAbi);
-          processedArgs.push(finalValue);
+            args: deepResolvePlaceholders(read.args || []),
+          };
+          return { funcAbi, request };
+        });
 
-        } catch (error: any) {
-          const message = error.shortMessage || error.message;
-          showNotification(`$read error: ${message.split(/[\(.]/)[0]}`, 'error');
-          console.error(error);
-          return null;
-        }
-      } else {
-        processedArgs.push(deepReplaceUserAddress(arg));
+        const results = await readContractsBatched(parentConfig.id as number, prepared.map(({ request }) => request));
+        resolvedArgs = ready.reduce((acc, { path }, index) => {
+          const result = results[index];
+          if (result.status === 'failure') throw result.error;
+          return setByPath(acc, path, selectReadOutput(result.result, prepared[index].funcAbi, ready[index].read.select));
+        }, resolvedArgs);
       }
+    } catch (error: any) {
+      console.error(error);
+      reportError(`$read error: ${formatErrorMessage(error)}`);
+      return null;
+    }
+
+    try {
+      return deepResolvePlaceholders(resolvedArgs);
+    } catch (error: any) {
+      reportError(`Argument error: ${error.message}`);
+      return null;
     }
-    return processedArgs;
-  }, [address, showNotification, wagmiConfig, switchNetworkIfNeeded, getExecutionConfig, extractSingleValue]);
+  }, [address, showNotification, getExecutionConfig, createPlaceholderContext, readContractsBatched]);
 
-  const executeRead = useCallback(async (config: ButtonConfig, args: any[] = []): Promise<any | null> => {
+  // Reads a contract. Results of a button (given its key) go to the result panel;
+  // other reads, such as chain steps, are shown in a notification.
+  const executeRead = useCallback(async (config: ButtonConfig, args: any[] = [], stepOutputs?: any[], buttonKey?: string): Promise<any | null> => {
     if (!isConnected || !address) return null;
     
     const execConfig = getExecutionConfig(config);
@@ -229,7 +515,7 @@ export const useChainsawActions = (showNotification: (message: string, type: Not
         throw new Error("Function name could not be determined from ABI.");
       }
       
-      const processedArgs = await processArgsForReads(args, execConfig);
+      const processedArgs = await processArgsForReads(args, execConfig, stepOutputs);
       if (processedArgs === null) {
         return null;
       }
@@ -243,7 +529,11 @@ export const useChainsawActions = (showNotification: (message: string, type: Not
         chainId: execConfig.id as number,
         authorizationList: undefined,
       });
-      showNotification(`Result: ${formatReadData(data)}`, 'read', 5000);
+      if (buttonKey) {
+        recordRead(buttonKey, execConfig, data);
+      } else {
+        showNotification(`Result: ${formatReadData(data)}`, 'read', 5000);
+      }
       return data;
     } catch (error: any) {
       const message = error.shortMessage || error.message;
@@ -251,29 +541,204 @@ export const useChainsawActions = (showNotification: (message: string, type: Not
       console.error(error);
       return null;
     }
-  }, [isConnected, address, wagmiConfig, switchNetworkIfNeeded, getExecutionConfig, showNotification, processArgsForReads]);
+  }, [isConnected, address, wagmiConfig, switchNetworkIfNeeded, getExecutionConfig, showNotification, processArgsForReads, recordRead]);
   
-  const handleTransaction = useCallback(async (config: ButtonConfig, args?: any[]) => {
-    if (!isConnected || !address) return;
+  // Reads several read-only buttons at once, one multicall per chain. Failed
+  // reads are left out of 'results' and their errors are returned by key.
+  const readButtons = useCallback(async (entries: { key: string; config: ButtonConfig }[]): Promise<{ results: Record<string, any>; errors: Record<string, string> }> => {
+    const results: Record<string, any> = {};
+    const errors: Record<string, string> = {};
+    if (!isConnected || !address || entries.length === 0) return { results, errors };
+
+    const byChain = new Map<number, { key: string; request: ReadRequest }[]>();
+    for (const { key, config } of entries) {
+      const execConfig = getExecutionConfig(config);
+      if (!execConfig.functionName) {
+        errors[key] = 'Function name could not be determined from ABI.';
+        continue;
+      }
+      // Reads are polled, so argument errors are returned with the results rather than shown.
+      const processedArgs = await processArgsForReads(execConfig.args, execConfig, undefined, undefined, (message) => {
+        errors[key] = message;
+      });
+      if (processedArgs === null) continue;
+      const chainId = execConfig.id as number;
+      byChain.set(chainId, [...(byChain.get(chainId) || []), {
+        key,
+        request: {
+          address: execConfig.address as `0x${string}`,
+          abi: execConfig.abi as Abi,
+          functionName: execConfig.functionName,
+          args: processedArgs,
+        },
+      }]);
+    }
+
+    for (const [chainId, chainReads] of byChain) {
+      const chainResults = await readContractsBatched(chainId, chainReads.map(({ request }) => request));
+      chainResults.forEach((result, index) => {
+        const { key } = chainReads[index];
+        if (result.status === 'success') {
+          results[key] = result.result;
+        } else {
+          errors[key] = formatErrorMessage(result.error);
+        }
+      });
+    }
+    return { results, errors };
+  }, [isConnected, address, getExecutionConfig, processArgsForReads, readContractsBatched]);
+
+  // Refreshes several read-only buttons at once and shows their results.
+  // Resolves with each button's result keyed by its settings key.
+  const refreshReads = useCallback(async (entries: { key: string; config: ButtonConfig }[]): Promise<Record<string, any>> => {
+    const { results, errors } = await readButtons(entries);
+
+    const lines: string[] = [];
+    for (const { key, config } of entries) {
+      if (key in results) {
+        recordRead(key, getExecutionConfig(config), results[key]);
+        lines.push(`${key}: ${formatReadData(results[key])}`);
+      } else if (key in errors) {
+        lines.push(`${key}: error (${errors[key]})`);
+      }
+    }
+
+    if (lines.length > 0) {
+      showNotification(lines.join('\n'), 'read', 10000);
+    }
+    return results;
+  }, [readButtons, recordRead, getExecutionConfig, showNotification]);
+
+  // Dry-runs a transaction with the same chain, value and args it will be sent with.
+  // Resolves with the decoded revert reason if it would revert, or null otherwise.
+  const simulateTransaction = useCallback(async (execConfig: ButtonConfig, txParams: TransactionParams, finalArgs: any[]): Promise<string | null> => {
+    if (!address) return null;
+    try {
+      if (txParams.to && !execConfig.data && execConfig.abi && execConfig.functionName) {
+        await simulateContract(wagmiConfig, {
+          account: address,
+          address: txParams.to,
+          abi: execConfig.abi as Abi,
+          functionName: execConfig.functionName,
+          args: finalArgs,
+          value: txParams.value,
+          gas: txParams.gas,
+          chainId: txParams.chainId,
+        });
+      } else {
+        await call(wagmiConfig, {
+          account: address,
+          to: txParams.to,
+          data: txParams.data,
+          value: txParams.value,
+          gas: txParams.gas,
+          chainId: txParams.chainId,
+        });
+      }
+      return null;
+    } catch (error) {
+      const reason = decodeRevertReason(error, execConfig.abi);
+      if (!reason) {
+        // The simulation itself failed (e.g. an RPC error or an unconfigured chain).
+        // Let the wallet decide instead of blocking the transaction.
+        console.warn('Transaction simulation failed, sending without it.', error);
+      }
+      return reason;
+    }
+  }, [address, wagmiConfig]);
+
+  // Fills in the fee fields the button does not set and estimates the gas limit.
+  // Estimation failures are not fatal: the wallet will then fill in the missing values.
+  const prepareFees = useCallback(async (execConfig: ButtonConfig, txParams: TransactionParams): Promise<{ params: TransactionParams; preview: TransactionPreview }> => {
+    const txType = execConfig.txType === 'legacy' ? 'legacy' : 'eip1559';
+    const params: TransactionParams = { ...txParams };
+    let gasLimit = params.gas;
+
+    try {
+      if (txType === 'legacy') {
+        params.gasPrice = execConfig.gasPrice ? BigInt(execConfig.gasPrice) : await getGasPrice(wagmiConfig, { chainId: params.chainId });
+      } else {
+        const needsEstimate = !execConfig.maxFeePerGas || !execConfig.maxPriorityFeePerGas;
+        const estimated = needsEstimate ? await estimateFeesPerGas(wagmiConfig, { chainId: params.chainId }) : undefined;
+        params.maxFeePerGas = execConfig.maxFeePerGas ? BigInt(execConfig.maxFeePerGas) : estimated?.maxFeePerGas;
+        params.maxPriorityFeePerGas = execConfig.maxPriorityFeePerGas ? BigInt(execConfig.maxPriorityFeePerGas) : estimated?.maxPriorityFeePerGas;
+      }
+    } catch (error) {
+      console.warn('Fee estimation failed.', error);
+    }
+
+    if (!gasLimit) {
+      try {
+        const estimatedGas = await estimateGas(wagmiConfig, {
+          account: address,
+          to: params.to,
+          data: params.data,
+          value: params.value,
+          chainId: params.chainId,
+        });
+        gasLimit = estimatedGas;
+        if (execConfig.gasMultiplier && execConfig.gasMultiplier > 0) {
+          // Scale in basis points to keep the arithmetic in bigint.
+          gasLimit = (estimatedGas * BigInt(Math.round(execConfig.gasMultiplier * 10000))) / 10000n;
+          params.gas = gasLimit;
+        }
+      } catch (error) {
+        console.warn('Gas estimation failed.', error);
+      }
+    }
+
+    const feePerGas = txType === 'legacy' ? params.gasPrice : params.maxFeePerGas;
+    const preview: TransactionPreview = {
+      chainId: params.chainId,
+      to: params.to,
+      value: params.value.toString(),
+      data: params.data,
+      functionName: execConfig.functionName,
+      gas: gasLimit?.toString(),
+      txType,
+      gasPrice: params.gasPrice?.toString(),
+      maxFeePerGas: params.maxFeePerGas?.toString(),
+      maxPriorityFeePerGas: params.maxPriorityFeePerGas?.toString(),
+      estimatedFee: gasLimit && feePerGas ? (gasLimit * feePerGas).toString() : undefined,
+      nativeSymbol: execConfig.nativeCurrency?.symbol || getKnownChain(params.chainId)?.nativeCurrency.symbol || 'ETH',
+      nativeDecimals: execConfig.nativeCurrency?.decimals ?? getKnownChain(params.chainId)?.nativeCurrency.decimals ?? 18,
+    };
+    return { params, preview };
+  }, [address, wagmiConfig]);
+
+  // Resolves a button's args and encodes the transaction it describes.
+  const buildTransaction = useCallback(async (
+    config: ButtonConfig,
+    args?: any[],
+    stepOutputs?: any[]
+  ): Promise<{ execConfig: ButtonConfig; txParams: TransactionParams; finalArgs: any[]; predictedAddress?: `0x${string}` } | null> => {
+    if (!isConnected || !address) return null;
 
     const execConfig = getExecutionConfig(config);
 
     if (execConfig.address === '$contractAddress') {
         showNotification('A contract address is required for this transaction.', 'error');
         // This case should be handled by the UI modal, but this is a safeguard.
-        return;
+        return null;
     }
     
     const networkReady = await switchNetworkIfNeeded(execConfig.id as number, execConfig);
-    if (!networkReady) return;
+    if (!networkReady) return null;
 
     try {
         const isDeploy = execConfig.address === '';
 
+        // One context for args, value and data, so "$random" means the same salt everywhere.
+        const placeholderContext = await createPlaceholderContext(execConfig.id as number, [args || execConfig.args, execConfig.value, execConfig.data, execConfig.salt]);
+        execConfig.value = resolvePlaceholder(execConfig.value, placeholderContext);
+        if (execConfig.data) {
+            execConfig.data = resolvePlaceholder(execConfig.data, placeholderContext);
+        }
+
         let finalArgs: any[] | null = [];
         if (execConfig.abi) {
-            finalArgs = await processArgsForReads(args || execConfig.args, execConfig);
-            if (finalArgs === null) return;
+            finalArgs = await processArgsForReads(args || execConfig.args, execConfig, stepOutputs, placeholderContext);
+            if (finalArgs === null) return null;
         }
 
         let txData: `0x${string}` | undefined;
@@ -281,7 +746,7 @@ export const useChainsawActions = (showNotification: (message: string, type: Not
         if (isDeploy) {
             if (!execConfig.data) {
                 showNotification('Contract deployment requires "data" (bytecode).', 'error');
-                return;
+                return null;
             }
             if (execConfig.abi) {
                 // For deployment, 'data' is the bytecode.
@@ -307,14 +772,8 @@ export const useChainsawActions = (showNotification: (message: string, type: Not
             }
         }
         
-        const txParams: {
-            to?: `0x${string}`;
-            value: bigint;
-            data?: `0x${string}`;
-            gas?: bigint;
-            chainId: number;
-        } = {
-            value: BigInt(execConfig.value),
+        const txParams: TransactionParams = {
+            value: parseAmount(execConfig.value),
             data: txData,
             gas: execConfig.gas ? BigInt(execConfig.gas) : undefined,
             chainId: execConfig.id as number,
@@ -324,32 +783,574 @@ export const useChainsawActions = (showNotification: (message: string, type: Not
             txParams.to = execConfig.address as `0x${string}`;
         }
 
+        let predictedAddress: `0x${string}` | undefined;
+        if (isDeploy && txData && execConfig.deployMode === 'create2') {
+            const salt = normalizeSalt(resolvePlaceholder(execConfig.salt || '0x00', placeholderContext));
+            const deployment = getCreate2Deployment(txData, salt);
+            const [deployerCode, existingCode] = await Promise.all([
+                getBytecode(wagmiConfig, { address: DETERMINISTIC_DEPLOYER, chainId: txParams.chainId }),
+                getBytecode(wagmiConfig, { address: deployment.address, chainId: txParams.chainId }),
+            ]);
+            if (!deployerCode) {
+                showNotification(`The deterministic deployment proxy (${DETERMINISTIC_DEPLOYER}) is not deployed on this chain.`, 'error');
+                return null;
+            }
+            if (existingCode) {
+                showNotification(`A contract already exists at ${deployment.address}. Use another salt to deploy a new copy.`, 'info', 10000);
+                return null;
+            }
+            txParams.to = deployment.to;
+            txParams.data = deployment.data;
+            predictedAddress = deployment.address;
+        }
+
         // Final validation before sending
         if (!isDeploy && !txParams.to) {
              showNotification('Transaction requires a target address.', 'error');
-             return;
+             return null;
         }
         if (isDeploy && !txParams.data) {
             showNotification('Contract deployment requires "data" (bytecode).', 'error');
-            return;
+            return null;
         }
         
-        sendTransaction(txParams, {
-            onSuccess: () => showNotification('Transaction sent successfully!', 'success'),
-            onError: (error) => {
-                const message = error.message.split(/[\(.]/)[0];
-                showNotification(`Transaction failed: ${message}`, 'error');
-            }
-        });
+        return { execConfig, txParams, finalArgs, predictedAddress };
     } catch (error: any) {
         console.error(error);
         showNotification(`An unexpected error occurred: ${error.message}`, 'error');
+        return null;
+    }
+  }, [isConnected, address, wagmiConfig, switchNetworkIfNeeded, getExecutionConfig, createPlaceholderContext, processArgsForReads, showNotification]);
+
+  // Builds and sends the transaction described by a button. Resolves as soon
+  // as the wallet has broadcast it.
+  const sendConfiguredTransaction = useCallback(async (config: ButtonConfig, args?: any[], stepOutputs?: any[]): Promise<SentTransaction | null> => {
+    const built = await buildTransaction(config, args, stepOutputs);
+    if (!built) return null;
+    const { execConfig, txParams, finalArgs, predictedAddress } = built;
+
+    try {
+        const revertReason = await simulateTransaction(execConfig, txParams, finalArgs);
+        if (revertReason) {
+            showNotification(`Transaction would revert: ${revertReason}`, 'error', 8000);
+            return null;
+        }
+
+        const { params, preview } = await prepareFees(execConfig, txParams);
+        // Deployments carry bytecode, not a function call.
+        const decodedCall = txParams.to && !predictedAddress ? decodeCalldata(txParams.data, execConfig.abi) ?? undefined : undefined;
+        const approved = await requestConfirmation({ ...preview, predictedAddress, decodedCall });
+        if (!approved) {
+            showNotification('Transaction cancelled.', 'info');
+            return null;
+        }
+
+        const hash = await sendTransactionAsync(params);
+        showNotification('Transaction sent. Waiting for confirmation...', 'info');
+        return { hash, to: params.to, value: params.value, data: params.data, args: finalArgs, deployedAddress: predictedAddress };
+    } catch (error: any) {
+        console.error(error);
+        showNotification(`Transaction failed: ${formatErrorMessage(error, execConfig.abi)}`, 'error');
+        return null;
+    }
+  }, [buildTransaction, simulateTransaction, prepareFees, requestConfirmation, sendTransactionAsync, showNotification]);
+
+  // Records a sent transaction and waits for it to be mined.
+  // Resolves with the receipt, or null if it could not be obtained.
+  const trackTransaction = useCallback(async (sent: SentTransaction, config: ButtonConfig, buttonKey?: string): Promise<TransactionReceipt | null> => {
+    const { hash } = sent;
+    const chainId = config.id as number;
+    const record: TransactionRecord = {
+      hash,
+      chainId,
+      label: sent.label || config.functionName || (config.address === '' ? 'Deploy' : 'Transaction'),
+      status: 'pending',
+      explorerUrl: getExplorerTxUrl(chainId, hash, config.blockExplorerUrls),
+      timestamp: Date.now(),
+      buttonKey,
+      to: sent.to,
+      value: sent.value.toString(),
+      data: sent.data,
+      args: JSON.parse(JSON.stringify(sent.args, bigintReplacer)),
+    };
+    saveTransaction(record);
+
+    try {
+      let replacementReason: string | null = null;
+      const receipt = await waitForTransactionReceipt(wagmiConfig, {
+        hash,
+        chainId,
+        onReplaced: (replacement) => {
+          replacementReason = replacement.reason;
+        },
+      });
+
+      if (replacementReason) {
+        // The replacement is tracked on its own, so only the original's status changes here.
+        saveTransaction({ ...record, status: 'replaced' });
+        // A sped-up transaction still performs the same call; a cancelled one does not.
+        return replacementReason === 'repriced' ? receipt : null;
+      }
+
+      const status = receipt.status === 'success' ? 'confirmed' : 'reverted';
+      let events: DecodedEvent[] | undefined;
+      try {
+        events = decodeReceiptEvents(receipt, getEventsAbi(config));
+      } catch (error) {
+        console.warn('Failed to decode receipt logs.', error);
+      }
+      saveTransaction({
+        ...record,
+        status,
+        blockNumber: receipt.blockNumber.toString(),
+        gasUsed: receipt.gasUsed.toString(),
+        events,
+      });
+      const deployedAddress = sent.deployedAddress ?? (!sent.to ? receipt.contractAddress : undefined);
+      if (status === 'confirmed' && deployedAddress) {
+        onDeployment?.({
+          address: deployedAddress,
+          chainId,
+          txHash: hash,
+          buttonKey,
+          bytecodeHash: config.data && isHex(config.data) ? keccak256(config.data) : undefined,
+          constructorArgs: record.args,
+          abi: config.abi,
+          color: config.color,
+          timestamp: Date.now(),
+        });
+        showNotification(`Contract deployed at ${deployedAddress} in block ${receipt.blockNumber}. Find it under Deployments.`, 'success', 10000);
+      } else if (status === 'confirmed') {
+        const eventNames = events?.length ? ` Events: ${events.map(event => event.name).join(', ')}.` : '';
+        showNotification(`Transaction confirmed in block ${receipt.blockNumber}.${eventNames}`, 'success');
+      } else {
+        showNotification(`Transaction reverted in block ${receipt.blockNumber}.`, 'error');
+      }
+      return receipt;
+    } catch (error: any) {
+      console.error(error);
+      const message = error.shortMessage || error.message;
+      saveTransaction({ ...record, status: 'failed' });
+      showNotification(`Failed to get transaction receipt: ${message.split(/[\(.]/)[0]}`, 'error');
+      return null;
+    }
+  }, [wagmiConfig, saveTransaction, showNotification, onDeployment]);
+
+  // Records how a transaction that was still pending when the app was closed
+  // ended. It stays pending if it is not mined before the wait times out.
+  const resumeTracking = useCallback(async (record: TransactionRecord, config?: ButtonConfig) => {
+    try {
+      let replaced = false;
+      const receipt = await waitForTransactionReceipt(wagmiConfig, {
+        hash: record.hash,
+        chainId: record.chainId,
+        onReplaced: () => {
+          replaced = true;
+        },
+      });
+      if (replaced) {
+        saveTransaction({ ...record, status: 'replaced' });
+        return;
+      }
+
+      let events: DecodedEvent[] | undefined;
+      try {
+        events = config ? decodeReceiptEvents(receipt, getEventsAbi(config)) : undefined;
+      } catch (error) {
+        console.warn('Failed to decode receipt logs.', error);
+      }
+      saveTransaction({
+        ...record,
+        status: receipt.status === 'success' ? 'confirmed' : 'reverted',
+        blockNumber: receipt.blockNumber.toString(),
+        gasUsed: receipt.gasUsed.toString(),
+        events,
+      });
+    } catch (error) {
+      if (error instanceof WaitForTransactionReceiptTimeoutError) return;
+      console.error(error);
+      saveTransaction({ ...record, status: 'failed' });
+    }
+  }, [wagmiConfig, saveTransaction]);
+
+  // Checks the allowance a button declares in 'requiresApproval' and, if it is too
+  // low, lets the user approve the exact amount or an unlimited one. Resolves with
+  // false if the transaction should not go ahead.
+  const ensureApproval = useCallback(async (config: ButtonConfig, buttonKey?: string): Promise<boolean> => {
+    const requirement = config.requiresApproval;
+    if (!requirement) return true;
+    if (!address) return false;
+
+    const targetChainId = config.id as number;
+    const { token, spender } = requirement;
+    let choice: ApprovalChoice | null;
+    let amount: bigint;
+    try {
+      if (!isAddress(token) || !isAddress(spender)) {
+        throw new Error('requiresApproval needs a valid token and spender address.');
+      }
+      // Symbol and decimals are only read when the amount is given in token units,
+      // so tokens with a non-standard symbol() still work with base-unit amounts.
+      const units = isTokenAmount(requirement.amount) ? await getTokenUnits(targetChainId, token) : BASE_TOKEN_UNITS;
+      amount = parseAmount(requirement.amount, units);
+      // FIX: Add missing 'authorizationList' property to satisfy wagmi's ReadContractParameters type.
+      const allowance = await readContract(wagmiConfig, {
+        address: token,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [address, spender],
+        chainId: targetChainId,
+        authorizationList: undefined,
+      });
+      if (allowance >= amount) return true;
+
+      choice = await requestApproval({
+        chainId: targetChainId,
+        token,
+        symbol: units.symbol,
+        decimals: units.decimals,
+        spender,
+        amount: amount.toString(),
+        allowance: allowance.toString(),
+      });
+    } catch (error: any) {
+      console.error(error);
+      showNotification(`Allowance check failed: ${formatErrorMessage(error)}`, 'error');
+      return false;
+    }
+
+    if (!choice) {
+      showNotification('Approval cancelled.', 'info');
+      return false;
+    }
+
+    const approveConfig: ButtonConfig = {
+      id: targetChainId,
+      address: token,
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [spender, (choice === 'unlimited' ? maxUint256 : amount).toString()],
+      value: '0',
+      color: config.color,
+      chainName: config.chainName,
+      nativeCurrency: config.nativeCurrency,
+      rpcUrls: config.rpcUrls,
+      blockExplorerUrls: config.blockExplorerUrls,
+    };
+    const sent = await sendConfiguredTransaction(approveConfig, approveConfig.args);
+    if (!sent) return false;
+    const receipt = await trackTransaction(sent, approveConfig, buttonKey);
+    return receipt?.status === 'success';
+  }, [address, wagmiConfig, getTokenUnits, requestApproval, sendConfiguredTransaction, trackTransaction, showNotification]);
+
+  const handleTransaction = useCallback(async (config: ButtonConfig, args?: any[], buttonKey?: string): Promise<TransactionReceipt | null> => {
+    const execConfig = getExecutionConfig(config);
+    const approved = await ensureApproval(execConfig, buttonKey);
+    if (!approved) return null;
+    const sent = await sendConfiguredTransaction(config, args);
+    if (!sent) return null;
+    return trackTransaction(sent, execConfig, buttonKey);
+  }, [ensureApproval, sendConfiguredTransaction, trackTransaction, getExecutionConfig]);
+
+  // Signs the message or EIP-712 typed data of a sign button, after substituting placeholders.
+  const signWithButton = useCallback(async (config: ButtonConfig, buttonKey: string): Promise<SignatureResult | null> => {
+    if (!isConnected || !address) return null;
+    if (!config.message && !config.typedData) {
+      showNotification('This sign button has no "message" or "typedData".', 'error');
+      return null;
+    }
+
+    const targetChainId = typeof config.id === 'number' ? config.id : chainId;
+    if (!targetChainId) return null;
+
+    try {
+      const context = await createPlaceholderContext(targetChainId, [config.message, config.typedData]);
+      if (config.typedData) {
+        // Wallets only sign typed data whose domain chainId matches the active network.
+        const networkReady = await switchNetworkIfNeeded(targetChainId, config);
+        if (!networkReady) return null;
+
+        const typedData = toSignableTypedData(resolvePlaceholdersDeep(config.typedData, context));
+        const signature = await signTypedData(wagmiConfig, typedData);
+        return {
+          buttonKey,
+          method: 'eth_signTypedData_v4',
+          signer: address,
+          payload: JSON.stringify(typedData, bigintReplacer, 2),
+          signature,
+          timestamp: Date.now(),
+        };
+      }
+
+      const message = interpolatePlaceholders(config.message as string, context);
+      const signature = await signMessage(wagmiConfig, { message });
+      return {
+        buttonKey,
+        method: 'personal_sign',
+        signer: address,
+        payload: message,
+        signature,
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      console.error(error);
+      showNotification(`Signing failed: ${formatErrorMessage(error)}`, 'error');
+      return null;
+    }
+  }, [isConnected, address, chainId, wagmiConfig, createPlaceholderContext, switchNetworkIfNeeded, showNotification]);
+
+  // Resends a pending transaction with the same nonce and bumped fees. 'speedUp'
+  // repeats the original call; 'cancel' sends a 0-value transfer to the sender instead.
+  const replaceTransaction = useCallback(async (record: TransactionRecord, mode: 'speedUp' | 'cancel') => {
+    if (!isConnected || !address) {
+      showNotification('Please connect your wallet first.', 'info');
+      return;
+    }
+
+    const networkReady = await switchNetworkIfNeeded(record.chainId);
+    if (!networkReady) return;
+
+    try {
+      const publicClient = getPublicClient(wagmiConfig, { chainId: record.chainId });
+      if (!publicClient) {
+        showNotification(`Chain ${record.chainId} is not configured.`, 'error');
+        return;
+      }
+
+      const original = await publicClient.getTransaction({ hash: record.hash });
+      if (original.blockNumber !== null) {
+        showNotification('This transaction has already been mined.', 'info');
+        return;
+      }
+
+      const params: TransactionParams & { nonce: number } = mode === 'speedUp'
+        ? { to: original.to ?? undefined, value: original.value, data: original.input, gas: original.gas, chainId: record.chainId, nonce: original.nonce }
+        : { to: address, value: 0n, gas: 21000n, chainId: record.chainId, nonce: original.nonce };
+
+      if (original.maxFeePerGas !== undefined && original.maxPriorityFeePerGas !== undefined) {
+        const current = await estimateFeesPerGas(wagmiConfig, { chainId: record.chainId }).catch(() => undefined);
+        const maxPriorityFeePerGas = bumpFee(original.maxPriorityFeePerGas);
+        const bumpedMaxFee = bumpFee(original.maxFeePerGas);
+        params.maxPriorityFeePerGas = maxPriorityFeePerGas;
+        params.maxFeePerGas = current && current.maxFeePerGas > bumpedMaxFee ? current.maxFeePerGas : bumpedMaxFee;
+        if (params.maxFeePerGas < maxPriorityFeePerGas) params.maxFeePerGas = maxPriorityFeePerGas;
+      } else if (original.gasPrice !== undefined) {
+        const current = await getGasPrice(wagmiConfig, { chainId: record.chainId }).catch(() => undefined);
+        const bumpedGasPrice = bumpFee(original.gasPrice);
+        params.gasPrice = current && current > bumpedGasPrice ? current : bumpedGasPrice;
+      }
+
+      const hash = await sendTransactionAsync(params);
+      showNotification(mode === 'speedUp' ? 'Speed up sent. Waiting for confirmation...' : 'Cancellation sent. Waiting for confirmation...', 'info');
+
+      const explorerBaseUrl = record.explorerUrl?.replace(/\/tx\/[^/]*$/, '');
+      trackTransaction(
+        {
+          hash,
+          label: mode === 'speedUp' ? `${record.label} (sped up)` : `Cancel ${record.label}`,
+          to: params.to,
+          value: params.value,
+          data: params.data,
+          args: mode === 'speedUp' ? record.args ?? [] : [],
+        },
+        { id: record.chainId, address: params.to ?? '', value: params.value.toString(), color: '', blockExplorerUrls: explorerBaseUrl ? [explorerBaseUrl] : undefined },
+        record.buttonKey
+      );
+    } catch (error: any) {
+      console.error(error);
+      showNotification(`Failed to ${mode === 'speedUp' ? 'speed up' : 'cancel'} transaction: ${formatErrorMessage(error)}`, 'error');
+    }
+  }, [isConnected, address, switchNetworkIfNeeded, wagmiConfig, sendTransactionAsync, trackTransaction, showNotification]);
+
+  // Sends every step of a single-chain chained button as one atomic EIP-5792 batch.
+  // Resolves with null when the wallet or the steps do not allow batching, in which
+  // case the caller falls back to sending the steps one by one.
+  const executeBatch = useCallback(async (
+    steps: ButtonConfig[],
+    onProgress: (index: number, status: StepStatus, hash?: `0x${string}`) => void,
+    buttonKey?: string
+  ): Promise<boolean | null> => {
+    const batchChainId = steps[0]?.id as number;
+    // Reads, deployments and $step references need the result of an earlier step,
+    // which is not available inside a single batch. Approvals are checked one by one.
+    const containsStepRef = (data: any): boolean => {
+      if (isStepRef(data)) return true;
+      if (Array.isArray(data)) return data.some(containsStepRef);
+      if (typeof data === 'object' && data !== null && !isReadCall(data)) return Object.values(data).some(containsStepRef);
+      return false;
+    };
+    const needsSequentialExecution = steps.some(step =>
+      step.readOnly || step.requiresApproval || step.address === '' || step.id !== batchChainId || containsStepRef([step.address, step.args])
+    );
+    if (steps.length < 2 || needsSequentialExecution) return null;
+
+    try {
+      const capabilities: Record<string, any> = await getCapabilities(wagmiConfig, { chainId: batchChainId });
+      const atomicStatus = capabilities?.atomic?.status;
+      const supportsAtomicBatch = atomicStatus === 'supported' || atomicStatus === 'ready' || capabilities?.atomicBatch?.supported === true;
+      if (!supportsAtomicBatch) return null;
+    } catch {
+      // The wallet does not implement wallet_getCapabilities.
+      return null;
+    }
+
+    const built = [];
+    for (let i = 0; i < steps.length; i++) {
+      const result = await buildTransaction(steps[i], steps[i].args);
+      if (!result) {
+        onProgress(i, 'failed');
+        return false;
+      }
+      built.push(result);
+    }
+
+    const totalValue = built.reduce((sum, { txParams }) => sum + txParams.value, 0n);
+    const approved = await requestConfirmation({
+      chainId: batchChainId,
+      value: totalValue.toString(),
+      txType: 'eip1559',
+      nativeSymbol: steps[0].nativeCurrency?.symbol || getKnownChain(batchChainId)?.nativeCurrency.symbol || 'ETH',
+      nativeDecimals: steps[0].nativeCurrency?.decimals ?? getKnownChain(batchChainId)?.nativeCurrency.decimals ?? 18,
+      calls: built.map(({ execConfig, txParams }) => ({
+        to: txParams.to,
+        value: txParams.value.toString(),
+        data: txParams.data,
+        functionName: execConfig.functionName,
+      })),
+    });
+    if (!approved) {
+      showNotification('Transaction cancelled.', 'info');
+      return false;
+    }
+
+    steps.forEach((_, i) => onProgress(i, 'pending'));
+    try {
+      const { id } = await sendCalls(wagmiConfig, {
+        chainId: batchChainId,
+        forceAtomic: true,
+        calls: built.map(({ txParams }) => ({ to: txParams.to!, data: txParams.data, value: txParams.value })),
+      });
+      showNotification(`Batch of ${steps.length} calls sent. Waiting for confirmation...`, 'info');
+
+      const result = await waitForCallsStatus(wagmiConfig, { id, timeout: 10 * 60_000 });
+      const succeeded = result.status === 'success';
+      const hash = result.receipts?.[0]?.transactionHash;
+
+      for (const receipt of result.receipts || []) {
+        saveTransaction({
+          hash: receipt.transactionHash,
+          chainId: batchChainId,
+          label: `Batch (${steps.length} calls)`,
+          status: receipt.status === 'success' ? 'confirmed' : 'reverted',
+          blockNumber: receipt.blockNumber.toString(),
+          gasUsed: receipt.gasUsed.toString(),
+          explorerUrl: getExplorerTxUrl(batchChainId, receipt.transactionHash, steps[0].blockExplorerUrls),
+          timestamp: Date.now(),
+          buttonKey,
+          value: totalValue.toString(),
+          calls: built.map(({ txParams, finalArgs }) => ({
+            to: txParams.to!,
+            value: txParams.value.toString(),
+            data: txParams.data ?? '0x',
+            args: JSON.parse(JSON.stringify(finalArgs, bigintReplacer)),
+          })),
+        });
+      }
+
+      steps.forEach((_, i) => onProgress(i, succeeded ? 'mined' : 'failed', hash));
+      if (!succeeded) {
+        showNotification('The batch was reverted. No step was applied.', 'error');
+      }
+      return succeeded;
+    } catch (error: any) {
+      const code = error.cause?.code || error.code;
+      if (code === 4200 || code === -32601) {
+        // The wallet advertised the capability but rejected the method; run sequentially.
+        steps.forEach((_, i) => onProgress(i, 'queued'));
+        return null;
+      }
+      console.error(error);
+      steps.forEach((_, i) => onProgress(i, 'failed'));
+      showNotification(`Batch failed: ${formatErrorMessage(error)}`, 'error');
+      return false;
+    }
+  }, [wagmiConfig, buildTransaction, requestConfirmation, saveTransaction, showNotification]);
+
+  // Runs the steps of a chained button in order. Each transaction must be mined
+  // before the next step starts, and execution stops at the first failure.
+  // The output of every step is collected so later steps can reference it via $step.
+  // Wallets that support EIP-5792 get all steps in one atomic batch when possible.
+  const executeChain = useCallback(async (
+    steps: ButtonConfig[],
+    onProgress: (index: number, status: StepStatus, hash?: `0x${string}`) => void,
+    buttonKey?: string
+  ): Promise<boolean> => {
+    const batched = await executeBatch(steps, onProgress, buttonKey);
+    if (batched !== null) return batched;
+
+    const stepOutputs: any[] = [];
+    for (let i = 0; i < steps.length; i++) {
+      let step = steps[i];
+      onProgress(i, 'pending');
+
+      const stepAddress: unknown = step.address;
+      if (isStepRef(stepAddress)) {
+        try {
+          step = { ...step, address: String(resolveStepRef(stepAddress, stepOutputs)) };
+        } catch (error: any) {
+          onProgress(i, 'failed');
+          showNotification(`$step error in step ${i + 1}: ${error.message}`, 'error');
+          return false;
+        }
+      }
+
+      if (step.readOnly) {
+        const result = await executeRead(step, step.args, stepOutputs);
+        if (result === null) {
+          onProgress(i, 'failed');
+          return false;
+        }
+        stepOutputs.push(result);
+        onProgress(i, 'done');
+        continue;
+      }
+
+      const approved = await ensureApproval(step, buttonKey);
+      const sent = approved ? await sendConfiguredTransaction(step, step.args, stepOutputs) : null;
+      if (!sent) {
+        onProgress(i, 'failed');
+        return false;
+      }
+      const { hash } = sent;
+      onProgress(i, 'pending', hash);
+
+      const receipt = await trackTransaction(sent, step, buttonKey);
+      if (!receipt || receipt.status !== 'success') {
+        onProgress(i, 'failed', hash);
+        showNotification(`Step ${i + 1} did not succeed. Remaining steps were skipped.`, 'error');
+        return false;
+      }
+      stepOutputs.push(buildTransactionOutput(receipt, getEventsAbi(step)));
+      onProgress(i, 'mined', hash);
     }
-  }, [isConnected, address, switchNetworkIfNeeded, getExecutionConfig, processArgsForReads, sendTransaction, showNotification]);
+    return true;
+  }, [executeBatch, executeRead, ensureApproval, sendConfiguredTransaction, trackTransaction, showNotification]);
   
   return {
       executeRead,
+      refreshReads,
+      readButtons,
+      reads,
       handleTransaction,
+      signWithButton,
+      replaceTransaction,
+      resumeTracking,
+      executeChain,
       getExecutionConfig,
+      transactions,
+      pendingConfirmation,
+      resolveConfirmation,
+      pendingApproval,
+      resolveApproval,
   };
 };
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+import { useConfig } from 'wagmi';
+import { watchBlockNumber } from '@wagmi/core';
+import type { Abi, AbiFunction } from 'viem';
+import type { ButtonConfig } from '../types';
+import { formatLiveValue } from '../utils/readValues';
+
+type ReadEntry = { key: string; config: ButtonConfig };
+type ReadButtons = (entries: ReadEntry[]) => Promise<{ results: Record<string, any>; errors: Record<string, string> }>;
+
+export interface LiveValue {
+  text: string;
+  error?: string;
+}
+
+const DEFAULT_INTERVAL_SEC = 30;
+const MIN_INTERVAL_SEC = 5;
+
+// Keeps the values of read-only buttons with a 'watch' option up to date, either
+// on a timer or on every new block. Entries on the same schedule are read together.
+export const useLiveReads = (entries: ReadEntry[], readButtons: ReadButtons) => {
+  const wagmiConfig = useConfig();
+  const [liveValues, setLiveValues] = useState<Record<string, LiveValue>>({});
+  // Latest entries and reader, so timers do not restart on every render.
+  const entriesRef = useRef(entries);
+  const readButtonsRef = useRef(readButtons);
+  entriesRef.current = entries;
+  readButtonsRef.current = readButtons;
+
+  // Groups the keys by schedule: "block:<chainId>" or "interval:<seconds>".
+  const schedules = new Map<string, string[]>();
+  for (const { key, config } of entries) {
+    const watch = config.watch;
+    if (!watch) continue;
+    const schedule = watch.everyBlock
+      ? `block:${config.id}`
+      : `interval:${Math.max(MIN_INTERVAL_SEC, watch.intervalSec ?? DEFAULT_INTERVAL_SEC)}`;
+    schedules.set(schedule, [...(schedules.get(schedule) || []), key]);
+  }
+  const scheduleKey = JSON.stringify(Array.from(schedules.entries()));
+
+  useEffect(() => {
+    const plan: [string, string[]][] = JSON.parse(scheduleKey);
+    const inFlight = new Set<string>();
+    let cancelled = false;
+
+    const refresh = async (schedule: string, keys: string[]) => {
+      // Skip a tick while the previous read of this group is still pending.
+      if (inFlight.has(schedule)) return;
+      inFlight.add(schedule);
+      try {
+        const group = entriesRef.current.filter(entry => keys.includes(entry.key));
+        const { results, errors } = await readButtonsRef.current(group);
+        if (cancelled) return;
+
+        setLiveValues(prev => {
+          const next = { ...prev };
+          for (const { key, config } of group) {
+            if (key in results) {
+              const funcAbi = (config.abi as Abi | undefined)?.find(
+                (item): item is AbiFunction => item.type === 'function' && item.name === config.functionName
+              );
+              try {
+                next[key] = { text: formatLiveValue(results[key], funcAbi, config.watch ?? {}) };
+              } catch (error: any) {
+                next[key] = { text: '—', error: error.message };
+              }
+            } else if (key in errors) {
+              next[key] = { text: '—', error: errors[key] };
+            }
+          }
+          return next;
+        });
+      } finally {
+        inFlight.delete(schedule);
+      }
+    };
+
+    const cleanups = plan.map(([schedule, keys]) => {
+      const [kind, param] = schedule.split(':');
+      if (kind === 'block') {
+        // watchBlockNumber throws for a chain that is not configured, so report it on the values instead.
+        const chainId = wagmiConfig.chains.find(chain => chain.id === Number(param))?.id;
+        if (chainId === undefined) {
+          const error = `Chain ${param} is not configured, so its blocks cannot be watched.`;
+          setLiveValues(prev => ({ ...prev, ...Object.fromEntries(keys.map(key => [key, { text: '—', error }])) }));
+          return () => {};
+        }
+        return watchBlockNumber(wagmiConfig, {
+          chainId,
+          emitOnBegin: true,
+          onBlockNumber: () => { refresh(schedule, keys); },
+          onError: (error) => console.error(`Failed to watch blocks on chain ${param}`, error),
+        });
+      }
+      refresh(schedule, keys);
+      const timer = setInterval(() => refresh(schedule, keys), Number(param) * 1000);
+      return () => clearInterval(timer);
+    });
+
+    return () => {
+      cancelled = true;
+      cleanups.forEach(cleanup => cleanup());
+    };
+  }, [scheduleKey, wagmiConfig]);
+
+  return liveValues;
+};
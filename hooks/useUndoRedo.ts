@@ -0,0 +1,40 @@
+import { useCallback, useRef, useState } from 'react';
+
+// Bounded undo/redo stacks. The caller records the state it is about to
+// replace, and passes the current state in when undoing or redoing.
+export const useUndoRedo = <T>(limit: number) => {
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  const [sizes, setSizes] = useState({ past: 0, future: 0 });
+
+  const sync = useCallback(() => {
+    setSizes({ past: past.current.length, future: future.current.length });
+  }, []);
+
+  const record = useCallback((previous: T) => {
+    past.current = [...past.current, previous].slice(-limit);
+    future.current = [];
+    sync();
+  }, [limit, sync]);
+
+  // Returns the state to restore, or null if there is nothing to undo.
+  const undo = useCallback((current: T): T | null => {
+    const previous = past.current[past.current.length - 1];
+    if (previous === undefined) return null;
+    past.current = past.current.slice(0, -1);
+    future.current = [...future.current, current];
+    sync();
+    return previous;
+  }, [sync]);
+
+  const redo = useCallback((current: T): T | null => {
+    const next = future.current[future.current.length - 1];
+    if (next === undefined) return null;
+    future.current = future.current.slice(0, -1);
+    past.current = [...past.current, current].slice(-limit);
+    sync();
+    return next;
+  }, [limit, sync]);
+
+  return { record, undo, redo, canUndo: sizes.past > 0, canRedo: sizes.future > 0 };
+};
@@ -27,15 +27,66 @@ export interface ReadCall {
     abi: Abi | readonly unknown[];
     functionName: string;
     args: any[];
+    // Optional: Picks part of the result by output name or index, with nested
+    // tuple fields and array items separated by dots, e.g. "sqrtPriceX96", "0" or "1.amount".
+    // Without it, single-output functions yield that output and others yield the whole tuple.
+    select?: string | number;
   }
 }
 
+// References the output of an earlier step in a chained button.
+// 'path' is a dot-separated path into that output, e.g. "contractAddress",
+// "events.Transfer.tokenId" or "0" for the first value of a multi-output read.
+// Transaction steps expose the receipt plus decoded 'events' and 'logs';
+// read steps expose the value returned by the contract.
+export interface StepRef {
+  '$step': number;
+  path?: string;
+}
+
+// EIP-712 typed data, as passed to eth_signTypedData_v4.
+export interface TypedDataDefinition {
+  domain: Record<string, any>;
+  types: Record<string, { name: string; type: string }[]>;
+  primaryType: string;
+  message: Record<string, any>;
+}
+
+// Keeps a read-only button's value up to date and shows it on the button.
+export interface ReadWatch {
+  // Poll every N seconds, or on every new block when 'everyBlock' is set.
+  intervalSec?: number;
+  everyBlock?: boolean;
+  // The output to show, as in $read.select.
+  select?: string | number;
+  // Shows integers in units with this many decimals, rounded to 'precision' digits (default 4).
+  decimals?: number;
+  precision?: number;
+  // Appended to the value, e.g. "ETH".
+  suffix?: string;
+}
+
+export interface ApprovalRequirement {
+  token: string;
+  spender: string;
+  // In the token's base units, or with its symbol, e.g. "100 USDC".
+  amount: string;
+}
+
 export interface ButtonConfig {
   id: number | string;
   address: string;
+  // In wei, or with a unit such as "0.01 ether", "5 gwei" or "1.5e18".
   value: string;
   data?: string; // Optional: raw transaction data
   gas?: string;
+  // Optional fee controls, all in wei. Fees the button does not set are estimated.
+  txType?: 'eip1559' | 'legacy';
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string; // Only used when txType is 'legacy'
+  // Multiplies the estimated gas limit, e.g. 1.2 for a 20% buffer. Ignored when 'gas' is set.
+  gasMultiplier?: number;
   color: string;
   description?: string;
   // Optional: for ABI-based transactions
@@ -44,11 +95,31 @@ export interface ButtonConfig {
   // Arguments can be simple values or complex nested objects.
   args?: any[];
   readOnly?: boolean;
+  watch?: ReadWatch;
+  // Optional: extra events, e.g. ERC-20 Transfer, decoded from the receipt along with those in 'abi'.
+  eventsAbi?: Abi | readonly unknown[];
+  // Optional: for deployments. 'create2' deploys through the deterministic deployment
+  // proxy, so the same bytecode and salt give the same address on every chain.
+  deployMode?: 'create' | 'create2';
+  // 32-byte hex, any string (hashed) or "$random". Defaults to zero.
+  salt?: string;
+  // Optional: ERC-20 token whose symbol and decimals let numeric inputs be typed as e.g. "100 USDC".
+  token?: string;
+  // Optional: an allowance the transaction needs. It is checked first and approved if too low.
+  requiresApproval?: ApprovalRequirement;
 
-  // For chained actions
-  type?: 'single' | 'chained';
+  // For chained actions. Steps inherit 'id' and 'color' from the parent button
+  // when omitted, while a step without 'value' sends 0. Steps are executed in
+  // order, each waiting for the previous one to be mined.
+  // A step's 'address' and 'args' may contain StepRef objects.
+  type?: 'single' | 'chained' | 'sign';
   steps?: ButtonConfig[];
 
+  // For sign buttons: a message for personal_sign, or EIP-712 typed data.
+  // Placeholders such as $userAddress and $now are substituted in both.
+  message?: string;
+  typedData?: TypedDataDefinition;
+
   // Optional: for adding a new network
   chainName?: string;
   nativeCurrency?: {
@@ -60,6 +131,156 @@ export interface ButtonConfig {
   blockExplorerUrls?: string[];
 }
 
+// Progress of a single step while a chained button is being executed.
+export type StepStatus = 'queued' | 'pending' | 'mined' | 'done' | 'failed';
+
+export interface StepProgress {
+  label: string;
+  status: StepStatus;
+  hash?: `0x${string}`;
+}
+
+export interface ChainProgress {
+  buttonKey: string;
+  steps: StepProgress[];
+}
+
+// An event log decoded from a receipt. Bigints in 'args' are stored as strings.
+export interface DecodedEvent {
+  name: string;
+  address: string;
+  args: Record<string, any> | any[];
+}
+
+// A transaction sent from a button whose receipt is being tracked.
+// 'replaced' means another transaction with the same nonce (a speed up or cancel) was mined instead.
+export type TransactionStatus = 'pending' | 'confirmed' | 'reverted' | 'failed' | 'replaced';
+
+export interface TrackedTransaction {
+  hash: `0x${string}`;
+  chainId: number;
+  label: string;
+  status: TransactionStatus;
+  // Stringified bigints so the entry stays JSON-serializable.
+  blockNumber?: string;
+  gasUsed?: string;
+  explorerUrl?: string;
+  timestamp: number;
+  // Events decoded from the receipt once mined.
+  events?: DecodedEvent[];
+}
+
+// One call of an atomic batch, as it was sent.
+export interface BatchCallRecord {
+  to: string;
+  value: string;
+  data: string;
+  args: any[];
+}
+
+// A transaction kept in the persistent history, with everything needed to re-run it.
+export interface TransactionRecord extends TrackedTransaction {
+  buttonKey?: string;
+  to?: string;
+  value: string;
+  data?: string;
+  // Arguments as they were sent, after $read and placeholder resolution.
+  args?: any[];
+  // Set instead of 'to', 'data' and 'args' when the transaction was an EIP-5792 batch.
+  calls?: BatchCallRecord[];
+}
+
+// One labelled output of a read. Tuple fields are flattened into "name.field" rows,
+// and bigints are stored as strings.
+export interface ReadOutput {
+  name: string;
+  type: string;
+  value: any;
+}
+
+// The result of a read-only button, kept to compare values over time.
+export interface ReadRecord {
+  buttonKey: string;
+  chainId: number;
+  functionName: string;
+  outputs: ReadOutput[];
+  timestamp: number;
+}
+
+// A contract deployed from a button, kept so its address is not lost.
+export interface DeploymentRecord {
+  address: `0x${string}`;
+  chainId: number;
+  txHash: `0x${string}`;
+  buttonKey?: string;
+  // keccak256 of the creation bytecode, without constructor args.
+  bytecodeHash?: `0x${string}`;
+  constructorArgs?: any[];
+  // The deploy button's ABI, used to generate buttons for the contract.
+  abi?: Abi | readonly unknown[];
+  color?: string;
+  timestamp: number;
+}
+
+// Calldata decoded into a function call, from the button's ABI or the bundled signatures.
+// Bigints in argument values are stored as strings.
+export interface DecodedCall {
+  functionName: string;
+  signature: string;
+  source: 'abi' | 'signatures';
+  args: { name: string; type: string; value: any }[];
+}
+
+// Everything the user is asked to confirm before a transaction is sent. Amounts are in wei.
+export interface TransactionPreview {
+  chainId: number;
+  to?: string;
+  value: string;
+  data?: string;
+  functionName?: string;
+  gas?: string;
+  txType: 'eip1559' | 'legacy';
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  // Upper bound of the network fee: gas limit times the max fee (or gas price).
+  estimatedFee?: string;
+  nativeSymbol: string;
+  nativeDecimals: number;
+  // Address a CREATE2 deployment will create the contract at.
+  predictedAddress?: string;
+  // The call the calldata encodes, when it could be decoded.
+  decodedCall?: DecodedCall;
+  // Set when several calls are sent as one EIP-5792 batch; 'value' is then their total.
+  calls?: { to?: string; value: string; data?: string; functionName?: string }[];
+}
+
+// An allowance that is too low for a button's transaction. Amounts are in the token's base units.
+export interface ApprovalRequest {
+  chainId: number;
+  token: string;
+  symbol: string;
+  decimals: number;
+  spender: string;
+  amount: string;
+  allowance: string;
+}
+
+export type ApprovalChoice = 'exact' | 'unlimited';
+
+// A signature produced by a sign button.
+export interface SignatureResult {
+  buttonKey: string;
+  method: 'personal_sign' | 'eth_signTypedData_v4';
+  signer: string;
+  // The message as it was signed, after placeholder substitution.
+  payload: string;
+  signature: `0x${string}`;
+  timestamp: number;
+}
+
+export type AppView = 'main' | 'settings' | 'history' | 'deployments';
+
 export interface Settings {
   [key:string]: ButtonConfig;
 }
@@ -71,3 +292,26 @@ export interface VisibleButtons {
 export interface ProfileVisibility {
   [profileName: string]: VisibleButtons;
 }
+
+// Stored data wrapped with the schema version it was written in.
+export interface VersionedData<T> {
+  schemaVersion: number;
+  data: T;
+}
+
+// A named copy of the configuration, kept so it can be restored or compared later.
+export interface ConfigSnapshot {
+  name: string;
+  timestamp: number;
+  settings: VersionedData<Settings>;
+  profileVisibility: VersionedData<ProfileVisibility>;
+}
+
+// A configuration from a file or a share link, waiting for the user to review it.
+export interface ConfigImport {
+  source: 'file' | 'link';
+  settings: Settings;
+  // Present when a whole setup or a profile was shared.
+  profileVisibility?: ProfileVisibility;
+  activeProfile?: string;
+}
@@ -0,0 +1,89 @@
+import { decodeFunctionData, isHex, parseAbi, size, slice, toFunctionSelector, toFunctionSignature, type Abi, type AbiFunction } from 'viem';
+import type { DecodedCall } from '../types';
+
+// Common function signatures, used to decode calldata of buttons without an ABI.
+// Bundled so that decoding works offline; parameter names are only used for labels.
+const KNOWN_SIGNATURES = [
+  // ERC-20
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function increaseAllowance(address spender, uint256 addedValue)',
+  'function decreaseAllowance(address spender, uint256 subtractedValue)',
+  // ERC-721 / ERC-1155
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  'function setApprovalForAll(address operator, bool approved)',
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+  'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)',
+  // Minting and claiming
+  'function mint()',
+  'function mint(uint256 amount)',
+  'function mint(address to)',
+  'function mint(address to, uint256 amount)',
+  'function safeMint(address to)',
+  'function safeMint(address to, uint256 tokenId)',
+  'function claim()',
+  'function burn(uint256 amount)',
+  // WETH and ERC-4626 vaults
+  'function deposit()',
+  'function withdraw(uint256 amount)',
+  'function deposit(uint256 assets, address receiver)',
+  'function mint(uint256 shares, address receiver)',
+  'function withdraw(uint256 assets, address receiver, address owner)',
+  'function redeem(uint256 shares, address receiver, address owner)',
+  // Uniswap V2 router
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+  'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)',
+  'function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)',
+  'function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)',
+  // Uniswap V3 routers and Universal Router
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+  'function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params)',
+  'function multicall(bytes[] data)',
+  'function multicall(uint256 deadline, bytes[] data)',
+  'function execute(bytes commands, bytes[] inputs)',
+  'function execute(bytes commands, bytes[] inputs, uint256 deadline)',
+  // Permit2, Multicall3 and Ownable
+  'function approve(address token, address spender, uint160 amount, uint48 expiration)',
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls)',
+  'function transferOwnership(address newOwner)',
+  'function renounceOwnership()',
+];
+
+let knownSignaturesAbi: Abi | undefined;
+const getKnownSignaturesAbi = (): Abi => (knownSignaturesAbi ??= parseAbi(KNOWN_SIGNATURES));
+
+const toJson = (value: unknown) => JSON.parse(JSON.stringify(value ?? null, (_key, v) => (typeof v === 'bigint' ? v.toString() : v)));
+
+const decodeWith = (data: `0x${string}`, abi: Abi, source: DecodedCall['source']): DecodedCall | null => {
+  const selector = slice(data, 0, 4);
+  const fn = abi.find((item): item is AbiFunction => item.type === 'function' && toFunctionSelector(item) === selector);
+  if (!fn) return null;
+  try {
+    const { args = [] } = decodeFunctionData({ abi: [fn], data });
+    return {
+      functionName: fn.name,
+      signature: toFunctionSignature(fn),
+      source,
+      args: fn.inputs.map((input, index) => ({
+        name: input.name || `arg${index}`,
+        type: input.type,
+        value: toJson(args[index]),
+      })),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Decodes calldata against the button's ABI, falling back to the bundled signatures.
+// Returns null for empty calldata or when the selector is unknown.
+export const decodeCalldata = (data: string | undefined, abi?: Abi | readonly unknown[]): DecodedCall | null => {
+  if (!data || !isHex(data) || size(data) < 4) return null;
+  return (abi && decodeWith(data, abi as Abi, 'abi')) || decodeWith(data, getKnownSignaturesAbi(), 'signatures');
+};
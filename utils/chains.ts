@@ -0,0 +1,29 @@
+import type { Chain } from 'viem';
+import * as viemChains from 'viem/chains';
+
+const knownChains = Object.values(viemChains) as Chain[];
+
+export const getKnownChain = (chainId: number): Chain | undefined => {
+  return knownChains.find(chain => chain.id === chainId);
+};
+
+export const getChainName = (chainId: number): string => {
+  return getKnownChain(chainId)?.name || `Chain ${chainId}`;
+};
+
+// Resolves the block explorer base URL for a chain. A button's own
+// `blockExplorerUrls` take precedence over the viem chain definition.
+export const getExplorerUrl = (chainId: number, blockExplorerUrls?: string[]): string | undefined => {
+  const url = blockExplorerUrls?.[0] || getKnownChain(chainId)?.blockExplorers?.default.url;
+  return url?.replace(/\/+$/, '');
+};
+
+export const getExplorerTxUrl = (chainId: number, hash: string, blockExplorerUrls?: string[]): string | undefined => {
+  const baseUrl = getExplorerUrl(chainId, blockExplorerUrls);
+  return baseUrl ? `${baseUrl}/tx/${hash}` : undefined;
+};
+
+export const getExplorerAddressUrl = (chainId: number, address: string, blockExplorerUrls?: string[]): string | undefined => {
+  const baseUrl = getExplorerUrl(chainId, blockExplorerUrls);
+  return baseUrl ? `${baseUrl}/address/${address}` : undefined;
+};
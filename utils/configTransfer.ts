@@ -0,0 +1,97 @@
+import type { ConfigImport, ProfileVisibility, Settings, VersionedData, VisibleButtons } from '../types';
+import { migrateProfileVisibility, migrateSettings, toVersionedProfileVisibility, toVersionedSettings } from './migrations';
+import { assertValidProfileVisibility, assertValidSettings } from './validation';
+
+// The whole setup, as written to an exported file.
+interface ConfigExportFile {
+  app: 'chainsaw';
+  exportedAt: string;
+  settings: VersionedData<Settings>;
+  profileVisibility: VersionedData<ProfileVisibility>;
+  activeProfile: string;
+}
+
+// What a share link carries: some buttons, and for a shared profile, its visibility.
+interface SharePayload {
+  settings: VersionedData<Settings>;
+  profile?: { name: string; visibility: VisibleButtons };
+}
+
+const SHARE_FRAGMENT_PREFIX = '#share=';
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const createConfigExport = (settings: Settings, profileVisibility: ProfileVisibility, activeProfile: string): string => {
+  const file: ConfigExportFile = {
+    app: 'chainsaw',
+    exportedAt: new Date().toISOString(),
+    settings: toVersionedSettings(settings),
+    profileVisibility: toVersionedProfileVisibility(profileVisibility),
+    activeProfile,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Reads an exported file. Plain settings JSON, such as a preset, is accepted too.
+export const parseConfigFile = (text: string): ConfigImport => {
+  const raw = JSON.parse(text);
+  if (isObject(raw) && raw.app === 'chainsaw') {
+    return {
+      source: 'file',
+      settings: assertValidSettings(migrateSettings(raw.settings)),
+      profileVisibility: raw.profileVisibility ? assertValidProfileVisibility(migrateProfileVisibility(raw.profileVisibility)) : undefined,
+      activeProfile: typeof raw.activeProfile === 'string' ? raw.activeProfile : undefined,
+    };
+  }
+  return { source: 'file', settings: assertValidSettings(migrateSettings(raw)) };
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked, as spreading a large array into fromCharCode overflows the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const compress = async (text: string): Promise<Uint8Array> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (bytes: ReturnType<typeof fromBase64Url>): Promise<string> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+// Builds a link that opens the app with the given buttons ready to import.
+// The config is deflated into the URL fragment, so it never reaches a server.
+export const createShareUrl = async (settings: Settings, profile?: SharePayload['profile']): Promise<string> => {
+  const payload: SharePayload = { settings: toVersionedSettings(settings), profile };
+  const encoded = toBase64Url(await compress(JSON.stringify(payload)));
+  return `${window.location.origin}${window.location.pathname}${SHARE_FRAGMENT_PREFIX}${encoded}`;
+};
+
+export const hasShareFragment = (hash: string) => hash.startsWith(SHARE_FRAGMENT_PREFIX);
+
+export const parseShareFragment = async (hash: string): Promise<ConfigImport> => {
+  const payload = JSON.parse(await decompress(fromBase64Url(hash.slice(SHARE_FRAGMENT_PREFIX.length))));
+  if (!isObject(payload)) {
+    throw new Error('The link does not contain a configuration.');
+  }
+  const profile = isObject(payload.profile) && typeof payload.profile.name === 'string' && isObject(payload.profile.visibility)
+    ? payload.profile
+    : undefined;
+  return {
+    source: 'link',
+    settings: assertValidSettings(migrateSettings(payload.settings)),
+    profileVisibility: profile ? assertValidProfileVisibility({ [profile.name]: profile.visibility }) : undefined,
+  };
+};
@@ -0,0 +1,21 @@
+import { concat, getContractAddress, isHex, keccak256, pad, size, stringToHex, type Hex } from 'viem';
+
+// Arachnid's deterministic deployment proxy. It is deployed at this address on most
+// EVM chains and CREATE2-deploys whatever init code follows a 32-byte salt in its calldata.
+export const DETERMINISTIC_DEPLOYER = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+
+// Turns a salt into 32 bytes. Hex values of up to 32 bytes are left-padded;
+// any other string is hashed, so "my-helper-v1" always gives the same salt.
+export const normalizeSalt = (salt: string): Hex => {
+  if (isHex(salt) && size(salt) <= 32) {
+    return pad(salt, { size: 32 });
+  }
+  return keccak256(stringToHex(salt));
+};
+
+// Calldata for the deployment proxy and the address the contract will be deployed at.
+export const getCreate2Deployment = (initCode: Hex, salt: Hex) => ({
+  to: DETERMINISTIC_DEPLOYER as Hex,
+  data: concat([salt, initCode]),
+  address: getContractAddress({ opcode: 'CREATE2', from: DETERMINISTIC_DEPLOYER, salt, bytecode: initCode }),
+});
@@ -0,0 +1,37 @@
+import type { Abi, AbiFunction } from 'viem';
+import type { ButtonConfig, DeploymentRecord, Settings } from '../types';
+
+const DEFAULT_BUTTON_COLOR = '#3B82F6';
+
+// Builds one button per function in a deployment's ABI, pointed at the deployed
+// address. Keys are prefixed with the deploy button's key and never overwrite
+// existing buttons. Arguments are left empty so the input modal asks for them.
+export const createButtonsForDeployment = (deployment: DeploymentRecord, existing: Settings): Settings => {
+  const functions = ((deployment.abi || []) as Abi).filter((item): item is AbiFunction => item.type === 'function');
+  const prefix = (deployment.buttonKey || 'contract').replace(/^deploy_?/i, '') || 'contract';
+  const shortAddress = `${deployment.address.slice(0, 6)}...${deployment.address.slice(-4)}`;
+
+  const buttons: Settings = {};
+  for (const fn of functions) {
+    const baseKey = `${prefix}_${fn.name}`;
+    let key = baseKey;
+    for (let suffix = 2; key in existing || key in buttons; suffix++) {
+      key = `${baseKey}_${suffix}`;
+    }
+
+    const button: ButtonConfig = {
+      id: deployment.chainId,
+      address: deployment.address,
+      value: '0',
+      color: deployment.color || DEFAULT_BUTTON_COLOR,
+      abi: [fn],
+      functionName: fn.name,
+      description: `${fn.name} on ${prefix} deployed at ${shortAddress}.`,
+    };
+    if (fn.stateMutability === 'view' || fn.stateMutability === 'pure') {
+      button.readOnly = true;
+    }
+    buttons[key] = button;
+  }
+  return buttons;
+};
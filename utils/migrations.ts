@@ -0,0 +1,89 @@
+import type { ProfileVisibility, Settings, VersionedData } from '../types';
+
+// Stored data is wrapped as { schemaVersion, data }. Data saved before the
+// envelope existed is treated as version 0.
+
+type Migration = (data: any) => any;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const normalizeChainId = (config: any): any => {
+  if (!isObject(config)) return config;
+  const id = typeof config.id === 'string' && /^\d+$/.test(config.id) ? Number(config.id) : config.id;
+  const steps = Array.isArray(config.steps) ? config.steps.map(normalizeChainId) : config.steps;
+  return { ...config, id, ...(steps !== undefined && { steps }) };
+};
+
+// Migration i upgrades data from schema version i to i + 1. Append new
+// migrations at the end; never change one that has shipped.
+const SETTINGS_MIGRATIONS: Migration[] = [
+  // 1: chain ids written as strings, e.g. "8453", become numbers.
+  (settings) => Object.fromEntries(Object.entries(settings).map(([key, config]) => [key, normalizeChainId(config)])),
+];
+
+const PROFILE_VISIBILITY_MIGRATIONS: Migration[] = [
+  // 1: adds the envelope only.
+  (visibility) => visibility,
+];
+
+export const SETTINGS_SCHEMA_VERSION = SETTINGS_MIGRATIONS.length;
+export const PROFILE_VISIBILITY_SCHEMA_VERSION = PROFILE_VISIBILITY_MIGRATIONS.length;
+
+const isVersioned = (value: unknown): value is VersionedData<unknown> =>
+  isObject(value) && typeof value.schemaVersion === 'number' && 'data' in value;
+
+const migrate = <T>(raw: unknown, migrations: Migration[], label: string): T => {
+  const { schemaVersion, data } = isVersioned(raw) ? raw : { schemaVersion: 0, data: raw };
+  if (!Number.isInteger(schemaVersion) || schemaVersion < 0) {
+    throw new Error(`${label} have an invalid schemaVersion: ${schemaVersion}.`);
+  }
+  if (schemaVersion > migrations.length) {
+    throw new Error(`${label} were saved by a newer version of the app (schema ${schemaVersion}, this version supports ${migrations.length}).`);
+  }
+  if (!isObject(data)) {
+    throw new Error(`${label} must be an object.`);
+  }
+
+  let current: unknown = data;
+  migrations.slice(schemaVersion).forEach((migration, index) => {
+    try {
+      current = migration(current);
+    } catch (error: any) {
+      throw new Error(`${label} migration to schema ${schemaVersion + index + 1} failed: ${error.message}`);
+    }
+  });
+  return current as T;
+};
+
+// Upgrades settings, versioned or not, to the current schema. Used for saved data and presets.
+export const migrateSettings = (raw: unknown): Settings => migrate<Settings>(raw, SETTINGS_MIGRATIONS, 'Settings');
+
+export const migrateProfileVisibility = (raw: unknown): ProfileVisibility =>
+  migrate<ProfileVisibility>(raw, PROFILE_VISIBILITY_MIGRATIONS, 'Profile visibility');
+
+export const toVersionedSettings = (settings: Settings): VersionedData<Settings> =>
+  ({ schemaVersion: SETTINGS_SCHEMA_VERSION, data: settings });
+
+export const toVersionedProfileVisibility = (visibility: ProfileVisibility): VersionedData<ProfileVisibility> =>
+  ({ schemaVersion: PROFILE_VISIBILITY_SCHEMA_VERSION, data: visibility });
+
+export const serializeSettings = (settings: Settings) => JSON.stringify(toVersionedSettings(settings));
+
+export const serializeProfileVisibility = (visibility: ProfileVisibility) => JSON.stringify(toVersionedProfileVisibility(visibility));
+
+export const getBackupKey = (key: string) => `${key}Backup`;
+
+// Reads and migrates a localStorage entry; returns null when nothing is stored.
+// If the entry cannot be parsed or migrated, its raw text is copied to the
+// backup key before the error is rethrown, so falling back does not lose it.
+export const loadVersioned = <T>(key: string, migrateData: (raw: unknown) => T): T | null => {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return null;
+  try {
+    return migrateData(JSON.parse(saved));
+  } catch (error: any) {
+    localStorage.setItem(getBackupKey(key), JSON.stringify({ savedAt: Date.now(), error: error.message, raw: saved }));
+    throw error;
+  }
+};
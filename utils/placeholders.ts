@@ -0,0 +1,104 @@
+import { toHex } from 'viem';
+
+// Dynamic values that can be used in args, `value` and `data`. Numeric ones
+// accept an offset, e.g. "$now+3600" for a deadline one hour from now.
+export type PlaceholderName = 'userAddress' | 'now' | 'blockNumber' | 'chainId' | 'nativeBalance' | 'random';
+
+export interface PlaceholderContext {
+  userAddress: `0x${string}`;
+  chainId: number;
+  // Unix time in seconds.
+  now: number;
+  // Only fetched when the config uses them, as they cost an RPC call.
+  blockNumber?: bigint;
+  nativeBalance?: bigint;
+  // One value per execution, so a salt repeated in several places stays the same.
+  random: `0x${string}`;
+}
+
+const PLACEHOLDER_PATTERN = /^\$(userAddress|now|blockNumber|chainId|nativeBalance|random)(?:([+-])(\d+))?$/;
+const INLINE_PLACEHOLDER_PATTERN = /\$(userAddress|now|blockNumber|chainId|nativeBalance|random)(?:[+-]\d+)?\b/g;
+const NUMERIC_PLACEHOLDERS: PlaceholderName[] = ['now', 'blockNumber', 'chainId', 'nativeBalance'];
+
+const parsePlaceholder = (value: string) => {
+  const match = PLACEHOLDER_PATTERN.exec(value);
+  if (!match) return null;
+  const [, name, sign, amount] = match;
+  return { name: name as PlaceholderName, offset: amount ? BigInt(sign === '-' ? `-${amount}` : amount) : 0n };
+};
+
+export const isPlaceholder = (value: unknown): boolean => typeof value === 'string' && PLACEHOLDER_PATTERN.test(value);
+
+// Lists the placeholders used anywhere in a value, including nested arrays and objects.
+export const findPlaceholders = (data: any, found = new Set<PlaceholderName>()): Set<PlaceholderName> => {
+  if (typeof data === 'string') {
+    for (const match of data.matchAll(INLINE_PLACEHOLDER_PATTERN)) {
+      found.add(match[1] as PlaceholderName);
+    }
+  } else if (Array.isArray(data)) {
+    data.forEach(item => findPlaceholders(item, found));
+  } else if (typeof data === 'object' && data !== null) {
+    Object.values(data).forEach(item => findPlaceholders(item, found));
+  }
+  return found;
+};
+
+// Explains why a string that looks like a placeholder ("$name...") is not a valid one.
+// Returns null for valid placeholders and for strings that do not start with "$".
+export const getPlaceholderError = (value: string): string | null => {
+  if (!/^\$\w/.test(value)) return null;
+  const placeholder = parsePlaceholder(value);
+  if (!placeholder) return `unknown placeholder "${value}"`;
+  if (placeholder.offset !== 0n && !NUMERIC_PLACEHOLDERS.includes(placeholder.name)) {
+    return `$${placeholder.name} does not accept an offset`;
+  }
+  return null;
+};
+
+export const createRandomValue = (): `0x${string}` => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+// Replaces a single placeholder string with its value. Other strings are returned unchanged.
+// Numeric placeholders resolve to decimal strings, which viem encodes like any uint argument.
+export const resolvePlaceholder = (value: string, context: PlaceholderContext): string => {
+  const placeholder = parsePlaceholder(value);
+  if (!placeholder) return value;
+
+  const { name, offset } = placeholder;
+  if (offset !== 0n && !NUMERIC_PLACEHOLDERS.includes(name)) {
+    throw new Error(`${value}: $${name} does not accept an offset.`);
+  }
+
+  switch (name) {
+    case 'userAddress':
+      return context.userAddress;
+    case 'random':
+      return context.random;
+    case 'now':
+      return (BigInt(context.now) + offset).toString();
+    case 'chainId':
+      return (BigInt(context.chainId) + offset).toString();
+    case 'blockNumber':
+    case 'nativeBalance': {
+      const base = context[name];
+      if (base === undefined) {
+        throw new Error(`${value}: $${name} is not available.`);
+      }
+      return (base + offset).toString();
+    }
+  }
+};
+
+// Resolves placeholders in every string of a nested value, e.g. EIP-712 message fields.
+export const resolvePlaceholdersDeep = (data: any, context: PlaceholderContext): any => {
+  if (typeof data === 'string') return resolvePlaceholder(data, context);
+  if (Array.isArray(data)) return data.map(item => resolvePlaceholdersDeep(item, context));
+  if (typeof data === 'object' && data !== null) {
+    return Object.fromEntries(Object.entries(data).map(([key, value]) => [key, resolvePlaceholdersDeep(value, context)]));
+  }
+  return data;
+};
+
+// Substitutes placeholders that appear inside free text, such as a message to sign.
+export const interpolatePlaceholders = (text: string, context: PlaceholderContext): string => {
+  return text.replace(INLINE_PLACEHOLDER_PATTERN, match => resolvePlaceholder(match, context));
+};
@@ -0,0 +1,66 @@
+import { formatUnits, type AbiFunction, type AbiParameter } from 'viem';
+import type { ReadWatch } from '../types';
+
+// Picks the part of a read result named by a `$read.select` path. Names are
+// matched against the ABI outputs and tuple components, so they also work on
+// results that viem returns as positional arrays.
+export const selectReadOutput = (result: any, funcAbi: AbiFunction, select?: string | number): any => {
+  const outputs = funcAbi.outputs ?? [];
+  if (select === undefined || select === '') return result;
+
+  const segments = String(select).replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+  // viem unwraps single outputs, so the root only needs a lookup when there are several.
+  let value = result;
+  let params: readonly AbiParameter[] | undefined = outputs.length === 1 ? undefined : outputs;
+  let param: AbiParameter | undefined = outputs.length === 1 ? outputs[0] : undefined;
+
+  for (const segment of segments) {
+    const isIndex = /^\d+$/.test(segment);
+    if (param && /\[\d*\]$/.test(param.type)) {
+      if (!isIndex || !Array.isArray(value) || Number(segment) >= value.length) {
+        throw new Error(`select "${select}": "${segment}" is not a valid index into ${param.type}.`);
+      }
+      value = value[Number(segment)];
+      param = { ...param, type: param.type.replace(/\[\d*\]$/, '') };
+      continue;
+    }
+
+    if (!params && param?.type === 'tuple') {
+      params = (param as AbiParameter & { components: readonly AbiParameter[] }).components;
+    }
+    if (!params) {
+      throw new Error(`select "${select}": cannot select "${segment}" from a ${param?.type ?? 'value'}.`);
+    }
+
+    const index: number = isIndex ? Number(segment) : params.findIndex(p => p.name === segment);
+    if (index < 0 || index >= params.length) {
+      throw new Error(`select "${select}": "${segment}" not found in ${funcAbi.name} outputs.`);
+    }
+    const name = params[index].name;
+    value = Array.isArray(value) ? value[index] : value[name ?? index];
+    param = params[index];
+    params = undefined;
+  }
+  return value;
+};
+
+// Formats a watched value for the badge on a read-only button.
+export const formatLiveValue = (result: any, funcAbi: AbiFunction | undefined, watch: ReadWatch): string => {
+  const value = funcAbi ? selectReadOutput(result, funcAbi, watch.select) : result;
+
+  let text: string;
+  if (typeof value === 'bigint') {
+    if (watch.decimals !== undefined) {
+      const [whole, fraction = ''] = formatUnits(value, watch.decimals).split('.');
+      const digits = fraction.slice(0, watch.precision ?? 4).replace(/0+$/, '');
+      text = digits ? `${whole}.${digits}` : whole;
+    } else {
+      text = value.toString();
+    }
+  } else if (typeof value === 'object' && value !== null) {
+    text = JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+  } else {
+    text = String(value);
+  }
+  return watch.suffix ? `${text} ${watch.suffix}` : text;
+};
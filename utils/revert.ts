@@ -0,0 +1,64 @@
+import { BaseError, decodeErrorResult, isHex, type Abi, type Hex } from 'viem';
+
+const formatErrorArgs = (args: readonly unknown[] | undefined): string => {
+  if (!args || args.length === 0) return '';
+  return args
+    .map(arg => (typeof arg === 'bigint' ? arg.toString() : typeof arg === 'object' ? JSON.stringify(arg, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)) : String(arg)))
+    .join(', ');
+};
+
+// Finds raw revert data (the ABI-encoded error) anywhere in an error's cause chain.
+const findRevertData = (error: BaseError): Hex | undefined => {
+  let revertData: Hex | undefined;
+  error.walk(cause => {
+    const candidate = (cause as { data?: unknown }).data;
+    const data = typeof candidate === 'object' && candidate !== null ? (candidate as { data?: unknown }).data : candidate;
+    if (typeof data === 'string' && isHex(data) && data !== '0x') {
+      revertData = data;
+      return true;
+    }
+    return false;
+  });
+  return revertData;
+};
+
+// Extracts a human-readable revert reason from an error thrown by a simulation
+// or a send. Custom errors are decoded against the given ABI.
+// Returns null if the error does not describe a revert (e.g. an RPC failure).
+export const decodeRevertReason = (error: unknown, abi?: Abi | readonly unknown[]): string | null => {
+  if (!(error instanceof BaseError)) return null;
+
+  const reverted = error.walk(cause => (cause as Error).name === 'ContractFunctionRevertedError') as
+    | { data?: { errorName: string; args?: readonly unknown[] }; reason?: string; signature?: Hex }
+    | null;
+  if (reverted?.data && reverted.data.errorName !== 'Error') {
+    return `${reverted.data.errorName}(${formatErrorArgs(reverted.data.args)})`;
+  }
+  if (reverted?.reason) return reverted.reason;
+
+  const revertData = findRevertData(error);
+  if (revertData) {
+    try {
+      const decoded = decodeErrorResult({ abi: (abi || []) as Abi, data: revertData });
+      if (decoded.errorName === 'Error') {
+        return String(decoded.args?.[0]);
+      }
+      return `${decoded.errorName}(${formatErrorArgs(decoded.args)})`;
+    } catch {
+      return `Unknown custom error ${revertData.slice(0, 10)}`;
+    }
+  }
+
+  if (reverted?.signature) return `Unknown custom error ${reverted.signature}`;
+
+  const isRevert = reverted || error.walk(cause => /revert/i.test((cause as Error).name) || /revert/i.test((cause as BaseError).shortMessage ?? ''));
+  return isRevert ? 'Execution reverted without a reason.' : null;
+};
+
+// Shortens an error to its most useful line, without cutting off custom error details.
+export const formatErrorMessage = (error: any, abi?: Abi | readonly unknown[]): string => {
+  const revertReason = decodeRevertReason(error, abi);
+  if (revertReason) return `reverted: ${revertReason}`;
+  if (error?.message?.includes('User rejected the request')) return 'User rejected the request.';
+  return (error?.shortMessage || error?.message || String(error)).split('\n')[0];
+};
@@ -0,0 +1,100 @@
+import type { ButtonConfig, Settings } from '../types';
+
+export type ButtonDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface ButtonDiff {
+  key: string;
+  status: ButtonDiffStatus;
+  // Top-level fields of the config that differ, for changed buttons.
+  changedFields: string[];
+}
+
+// JSON with object keys sorted, so configs that differ only in key order compare equal.
+export const stableStringify = (value: unknown): string => JSON.stringify(value, (_key, item) =>
+  typeof item === 'object' && item !== null && !Array.isArray(item)
+    ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+    : item
+);
+
+export const getChangedFields = (before: ButtonConfig, after: ButtonConfig): string[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof ButtonConfig)[]);
+  return Array.from(fields).filter(field => stableStringify(before[field]) !== stableStringify(after[field]));
+};
+
+// Compares two configurations button by button: 'added' buttons exist only in 'after'.
+export const diffSettings = (before: Settings, after: Settings): ButtonDiff[] => {
+  const diffs: ButtonDiff[] = Object.keys(after).map(key => {
+    if (!(key in before)) return { key, status: 'added', changedFields: [] };
+    const changedFields = getChangedFields(before[key], after[key]);
+    return { key, status: changedFields.length > 0 ? 'changed' : 'unchanged', changedFields };
+  });
+  Object.keys(before).forEach(key => {
+    if (!(key in after)) diffs.push({ key, status: 'removed', changedFields: [] });
+  });
+  return diffs;
+};
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  // Where the transaction goes (the contract or the chain) changed.
+  securityRelevant: boolean;
+}
+
+const SECURITY_FIELDS = ['address', 'id'];
+
+// Steps of a chained button carry their own targets.
+const stepTargetsDiffer = (before: unknown, after: unknown): boolean => {
+  const targets = (steps: unknown) => stableStringify(Array.isArray(steps)
+    ? steps.map(step => ({ address: step?.address, id: step?.id }))
+    : null);
+  return targets(before) !== targets(after);
+};
+
+export const getFieldChanges = (before: ButtonConfig, after: ButtonConfig): FieldChange[] =>
+  getChangedFields(before, after).map(field => {
+    const beforeValue = before[field as keyof ButtonConfig];
+    const afterValue = after[field as keyof ButtonConfig];
+    return {
+      field,
+      before: beforeValue,
+      after: afterValue,
+      securityRelevant: SECURITY_FIELDS.includes(field) || (field === 'steps' && stepTargetsDiffer(beforeValue, afterValue)),
+    };
+  });
+
+// How a button that exists on both sides of a merge is resolved. For new
+// buttons, 'theirs' adds the button and 'mine' skips it.
+export type MergeResolution = 'mine' | 'theirs' | 'both';
+
+// Merges incoming buttons into the current ones. Buttons without a resolution
+// keep the current version; 'both' adds the incoming one under a free "<key>_<n>"
+// name right after the original.
+export const applyMergeResolutions = (
+  current: Settings,
+  incoming: Settings,
+  resolutions: Record<string, MergeResolution>
+): Settings => {
+  const merged: Settings = {};
+  const takenKeys = new Set([...Object.keys(current), ...Object.keys(incoming)]);
+
+  Object.keys(current).forEach(key => {
+    const resolution = key in incoming ? resolutions[key] : undefined;
+    merged[key] = resolution === 'theirs' ? incoming[key] : current[key];
+    if (resolution === 'both') {
+      let renamedKey = `${key}_2`;
+      for (let suffix = 3; takenKeys.has(renamedKey); suffix++) {
+        renamedKey = `${key}_${suffix}`;
+      }
+      takenKeys.add(renamedKey);
+      merged[renamedKey] = incoming[key];
+    }
+  });
+  Object.keys(incoming).forEach(key => {
+    if (!(key in current) && resolutions[key] === 'theirs') {
+      merged[key] = incoming[key];
+    }
+  });
+  return merged;
+};
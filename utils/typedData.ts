@@ -0,0 +1,52 @@
+import type { TypedDataDefinition as SignableTypedData } from 'viem';
+import type { TypedDataDefinition } from '../types';
+
+const INTEGER_TYPE_PATTERN = /^u?int\d*$/;
+const ARRAY_TYPE_PATTERN = /^(.+)\[\d*\]$/;
+
+const toInteger = (value: unknown, field: string): bigint => {
+  if (typeof value === 'bigint') return value;
+  if ((typeof value === 'string' && value.trim() !== '') || typeof value === 'number') {
+    try {
+      return BigInt(value);
+    } catch {
+      // Reported below.
+    }
+  }
+  throw new Error(`Typed data field '${field}' must be an integer, got ${JSON.stringify(value)}.`);
+};
+
+// Converts a value to what its EIP-712 type expects, walking into arrays and structs.
+const coerceValue = (value: any, type: string, types: TypedDataDefinition['types'], field: string): any => {
+  const arrayMatch = ARRAY_TYPE_PATTERN.exec(type);
+  if (arrayMatch) {
+    return Array.isArray(value) ? value.map((item, index) => coerceValue(item, arrayMatch[1], types, `${field}[${index}]`)) : value;
+  }
+  if (INTEGER_TYPE_PATTERN.test(type)) {
+    return toInteger(value, field);
+  }
+  const struct = types[type];
+  if (struct && typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+      const member = struct.find(param => param.name === key);
+      return [key, member ? coerceValue(item, member.type, types, `${field}.${key}`) : item];
+    }));
+  }
+  return value;
+};
+
+// Placeholders resolve to strings, but viem leaves a string domain chainId out of
+// the domain type and cannot encode integer fields given as strings. Converts
+// them, using the declared types, into the values viem signs.
+export const toSignableTypedData = (typedData: TypedDataDefinition): SignableTypedData<Record<string, unknown>, string> => {
+  const { chainId, ...domain } = typedData.domain;
+  return {
+    domain: {
+      ...domain,
+      ...(chainId !== undefined && { chainId: Number(toInteger(chainId, 'domain.chainId')) }),
+    },
+    types: typedData.types,
+    primaryType: typedData.primaryType,
+    message: coerceValue(typedData.message, typedData.primaryType, typedData.types, 'message'),
+  };
+};
@@ -0,0 +1,81 @@
+// Parses amounts written for humans, such as "0.01 ether", "5 gwei", "1.5e18"
+// or "100 USDC", into integer base units.
+
+export interface TokenUnits {
+  symbol: string;
+  decimals: number;
+}
+
+const NATIVE_UNITS: Record<string, number> = {
+  wei: 0,
+  gwei: 9,
+  ether: 18,
+  eth: 18,
+};
+
+const AMOUNT_PATTERN = /^(-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)(?:\s*([a-z][\w.]*))?$/i;
+
+// Scales a decimal (optionally in scientific notation) by 10^decimals.
+// Throws instead of rounding when the result would not be a whole number.
+const scaleDecimal = (amount: string, decimals: number, input: string): bigint => {
+  const [, sign, whole, fraction = '', exponent = '0'] = /^(-?)(\d+)(?:\.(\d+))?(?:e([+-]?\d+))?$/i.exec(amount)!;
+  const digits = whole + fraction;
+  const scale = decimals + Number(exponent) - fraction.length;
+
+  let result: bigint;
+  if (scale >= 0) {
+    result = BigInt(digits) * 10n ** BigInt(scale);
+  } else {
+    const dropped = digits.slice(scale);
+    if (/[^0]/.test(dropped)) {
+      throw new Error(`"${input}" has more decimal places than the unit allows.`);
+    }
+    result = BigInt(digits.slice(0, scale) || '0');
+  }
+  return sign ? -result : result;
+};
+
+// Returns the unit of an amount string ("ether", "USDC"...), or null if it has none.
+export const getAmountUnit = (input: string): string | null => {
+  return AMOUNT_PATTERN.exec(input.trim())?.[2] ?? null;
+};
+
+// Whether an amount needs the button's token metadata to be parsed.
+export const isTokenAmount = (input: string): boolean => {
+  const unit = getAmountUnit(input);
+  return unit !== null && !(unit.toLowerCase() in NATIVE_UNITS);
+};
+
+// Converts an amount into base units. Plain integers and hex strings are taken as
+// already being in base units, as before. Token units need the token's metadata.
+export const parseAmount = (input: string | number | bigint, token?: TokenUnits): bigint => {
+  if (typeof input !== 'string') return BigInt(input);
+
+  const trimmed = input.trim();
+  if (/^-?\d+$/.test(trimmed) || /^0x[0-9a-f]+$/i.test(trimmed)) {
+    return BigInt(trimmed);
+  }
+
+  const match = AMOUNT_PATTERN.exec(trimmed);
+  if (!match) {
+    throw new Error(`"${input}" is not a valid amount. Use e.g. "1000", "0.01 ether", "5 gwei" or "1.5e18".`);
+  }
+
+  const [, amount, unit] = match;
+  if (!unit) {
+    return scaleDecimal(amount, 0, input);
+  }
+
+  const nativeDecimals = NATIVE_UNITS[unit.toLowerCase()];
+  if (nativeDecimals !== undefined) {
+    return scaleDecimal(amount, nativeDecimals, input);
+  }
+
+  if (!token) {
+    throw new Error(`"${input}": unknown unit "${unit}". Set "token" on the button to use token units.`);
+  }
+  if (unit.toLowerCase() !== token.symbol.toLowerCase()) {
+    throw new Error(`"${input}": unit "${unit}" does not match the button's token (${token.symbol}).`);
+  }
+  return scaleDecimal(amount, token.decimals, input);
+};
@@ -0,0 +1,363 @@
+import { isAddress, isHex, type Abi, type AbiFunction } from 'viem';
+import type { ProfileVisibility, Settings } from '../types';
+import { getPlaceholderError, isPlaceholder } from './placeholders';
+import { parseAmount } from './units';
+
+// A problem in a configuration, located by a path such as "uniswap_swap.args[2].$read.functionName".
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Where a config sits: a top-level button or a step of a chained button.
+interface ConfigContext {
+  stepIndex?: number;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStepRef = (value: unknown): value is Record<string, any> => isObject(value) && '$step' in value;
+
+const isIntegerString = (value: unknown) => typeof value === 'string' && /^\d+$/.test(value);
+
+const FEE_FIELDS = ['gas', 'maxFeePerGas', 'maxPriorityFeePerGas', 'gasPrice'] as const;
+const STRING_FIELDS = ['description', 'salt', 'message', 'chainName'] as const;
+
+type Issues = ValidationIssue[];
+
+const add = (issues: Issues, path: string, message: string) => {
+  issues.push({ path, message });
+};
+
+// Checks a field that holds a contract address, or one of the given input prompts.
+const checkAddress = (issues: Issues, value: unknown, path: string, prompts: string[] = []) => {
+  if (typeof value !== 'string') {
+    add(issues, path, 'must be an address string');
+  } else if (!prompts.includes(value) && !isAddress(value)) {
+    // Addresses are used as written, so placeholders are not resolved here.
+    add(issues, path, isPlaceholder(value) ? `placeholders such as "${value}" are not supported in addresses` : `"${value}" is not a valid address`);
+  }
+};
+
+// Checks that an ABI is an array of entries, and returns it if it is usable.
+const checkAbi = (issues: Issues, value: unknown, path: string): Abi | null => {
+  if (!Array.isArray(value)) {
+    add(issues, path, 'must be an array');
+    return null;
+  }
+  let isValid = true;
+  value.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (!isObject(item) || typeof item.type !== 'string') {
+      add(issues, itemPath, 'must be an ABI entry with a "type"');
+      isValid = false;
+    } else if (item.type === 'function' && (typeof item.name !== 'string' || !Array.isArray(item.inputs))) {
+      add(issues, itemPath, 'a function needs a "name" and an "inputs" array');
+      isValid = false;
+    }
+  });
+  return isValid ? (value as Abi) : null;
+};
+
+// Checks that 'functionName' picks a function of the ABI, returning its overloads.
+const checkFunctionName = (issues: Issues, abi: Abi, functionName: unknown, path: string): AbiFunction[] => {
+  const functions = abi.filter((item): item is AbiFunction => item.type === 'function');
+  if (functionName === undefined) {
+    if (functions.length === 0) add(issues, path, 'abi contains no functions');
+    else if (functions.length > 1) add(issues, path, 'required when the abi has several functions');
+    return functions.length === 1 ? functions : [];
+  }
+  if (typeof functionName !== 'string') {
+    add(issues, path, 'must be a string');
+    return [];
+  }
+  const overloads = functions.filter(item => item.name === functionName);
+  if (overloads.length === 0) add(issues, path, 'not in abi');
+  return overloads;
+};
+
+// Walks argument values, checking placeholders, $read calls and $step references.
+const checkArgs = (issues: Issues, value: unknown, path: string, context: ConfigContext) => {
+  if (typeof value === 'string') {
+    const error = getPlaceholderError(value);
+    if (error) add(issues, path, error);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => checkArgs(issues, item, `${path}[${index}]`, context));
+  } else if (isObject(value)) {
+    if ('$read' in value) {
+      checkRead(issues, value.$read, `${path}.$read`, context);
+    } else if ('$step' in value) {
+      checkStepRef(issues, value, path, context);
+    } else {
+      Object.entries(value).forEach(([key, item]) => checkArgs(issues, item, `${path}.${key}`, context));
+    }
+  }
+};
+
+const checkStepRef = (issues: Issues, ref: Record<string, any>, path: string, context: ConfigContext) => {
+  if (context.stepIndex === undefined) {
+    add(issues, `${path}.$step`, 'only allowed inside the steps of a chained button');
+  } else if (!Number.isInteger(ref.$step) || ref.$step < 0 || ref.$step >= context.stepIndex) {
+    add(issues, `${path}.$step`, `must refer to an earlier step (0-${context.stepIndex - 1})`);
+  }
+  if (ref.path !== undefined && typeof ref.path !== 'string') {
+    add(issues, `${path}.path`, 'must be a string');
+  }
+};
+
+const checkRead = (issues: Issues, read: unknown, path: string, context: ConfigContext) => {
+  if (!isObject(read)) {
+    add(issues, path, 'must be an object');
+    return;
+  }
+  if (read.address !== undefined) checkAddress(issues, read.address, `${path}.address`);
+  const abi = checkAbi(issues, read.abi, `${path}.abi`);
+  if (abi) {
+    const overloads = checkFunctionName(issues, abi, read.functionName, `${path}.functionName`);
+    if (Array.isArray(read.args)) checkArgCount(issues, overloads, read.args, `${path}.args`);
+  }
+  if (read.args !== undefined) {
+    if (!Array.isArray(read.args)) add(issues, `${path}.args`, 'must be an array');
+    else checkArgs(issues, read.args, `${path}.args`, context);
+  }
+  if (read.select !== undefined && typeof read.select !== 'string' && typeof read.select !== 'number') {
+    add(issues, `${path}.select`, 'must be an output name or index');
+  }
+};
+
+// Missing trailing args are prompted for, so only extra ones are an error.
+const checkArgCount = (issues: Issues, overloads: { inputs: readonly unknown[] }[], args: unknown[], path: string) => {
+  if (overloads.length > 0 && overloads.every(item => args.length > item.inputs.length)) {
+    const expected = Math.max(...overloads.map(item => item.inputs.length));
+    add(issues, path, `expected at most ${expected} arguments, got ${args.length}`);
+  }
+};
+
+const checkButton = (issues: Issues, config: unknown, path: string, context: ConfigContext = {}) => {
+  if (!isObject(config)) {
+    add(issues, path, 'must be an object');
+    return;
+  }
+  const isStep = context.stepIndex !== undefined;
+  const type = config.type ?? 'single';
+  if (!['single', 'chained', 'sign'].includes(type)) {
+    add(issues, `${path}.type`, 'must be "single", "chained" or "sign"');
+    return;
+  }
+
+  // Steps inherit 'id' and 'color' from their parent; a step without 'value' sends 0.
+  if (config.id === undefined) {
+    if (!isStep) add(issues, `${path}.id`, 'is required');
+  } else if (config.id !== '$chainId' && !(Number.isInteger(config.id) && config.id > 0) && !isIntegerString(config.id)) {
+    add(issues, `${path}.id`, 'must be a chain id or "$chainId"');
+  }
+  if (config.color === undefined) {
+    if (!isStep) add(issues, `${path}.color`, 'is required');
+  } else if (typeof config.color !== 'string') {
+    add(issues, `${path}.color`, 'must be a string');
+  }
+  STRING_FIELDS.forEach(field => {
+    if (config[field] !== undefined && typeof config[field] !== 'string') add(issues, `${path}.${field}`, 'must be a string');
+  });
+
+  if (type === 'chained') {
+    if (isStep) {
+      add(issues, `${path}.type`, 'nested chained steps are not supported');
+    } else if (!Array.isArray(config.steps) || config.steps.length === 0) {
+      add(issues, `${path}.steps`, 'a chained button needs a non-empty array of steps');
+    } else {
+      config.steps.forEach((step: unknown, index: number) => checkButton(issues, step, `${path}.steps[${index}]`, { stepIndex: index }));
+    }
+    return;
+  }
+
+  if (type === 'sign') {
+    if (config.message === undefined && config.typedData === undefined) {
+      add(issues, path, 'a sign button needs "message" or "typedData"');
+    }
+    if (config.typedData !== undefined) {
+      const typedData = config.typedData;
+      if (!isObject(typedData)) {
+        add(issues, `${path}.typedData`, 'must be an object');
+      } else {
+        ['domain', 'types', 'message'].forEach(field => {
+          if (!isObject(typedData[field])) add(issues, `${path}.typedData.${field}`, 'must be an object');
+        });
+        if (typeof typedData.primaryType !== 'string') {
+          add(issues, `${path}.typedData.primaryType`, 'must be a string');
+        } else if (isObject(typedData.types) && !(typedData.primaryType in typedData.types)) {
+          add(issues, `${path}.typedData.primaryType`, 'not in types');
+        }
+      }
+    }
+    return;
+  }
+
+  // A single transaction or read, either on its own or as a step.
+  const isDeploy = config.address === '';
+  if (config.address === undefined) {
+    add(issues, `${path}.address`, 'is required ("" deploys a contract)');
+  } else if (isStepRef(config.address)) {
+    checkStepRef(issues, config.address, `${path}.address`, context);
+  } else if (!isDeploy) {
+    checkAddress(issues, config.address, `${path}.address`, ['$contractAddress']);
+  }
+
+  if (config.value === undefined) {
+    if (!isStep) add(issues, `${path}.value`, 'is required');
+  } else if (typeof config.value !== 'string') {
+    add(issues, `${path}.value`, 'must be a string, e.g. "0" or "0.01 ether"');
+  } else if (!isPlaceholder(config.value)) {
+    try {
+      parseAmount(config.value);
+    } catch (error: any) {
+      add(issues, `${path}.value`, getPlaceholderError(config.value) ?? error.message);
+    }
+  }
+
+  if (config.data !== undefined) {
+    if (typeof config.data !== 'string') add(issues, `${path}.data`, 'must be a hex string');
+    else if (config.data !== '$data' && !isHex(config.data) && !isPlaceholder(config.data)) add(issues, `${path}.data`, getPlaceholderError(config.data) ?? 'must be hex or "$data"');
+  }
+  if (config.data === undefined && config.abi === undefined) {
+    add(issues, path, 'needs either "data" or "abi"');
+  }
+
+  if (config.abi !== undefined) {
+    const abi = checkAbi(issues, config.abi, `${path}.abi`);
+    if (abi && isDeploy) {
+      const constructorAbi = abi.find(item => item.type === 'constructor');
+      if (Array.isArray(config.args)) checkArgCount(issues, [{ inputs: constructorAbi?.inputs ?? [] }], config.args, `${path}.args`);
+    } else if (abi) {
+      const overloads = checkFunctionName(issues, abi, config.functionName, `${path}.functionName`);
+      if (Array.isArray(config.args)) checkArgCount(issues, overloads, config.args, `${path}.args`);
+    }
+  } else if (config.functionName !== undefined) {
+    add(issues, `${path}.functionName`, 'requires "abi"');
+  }
+  if (config.args !== undefined) {
+    if (!Array.isArray(config.args)) add(issues, `${path}.args`, 'must be an array');
+    else checkArgs(issues, config.args, `${path}.args`, context);
+  }
+  if (config.eventsAbi !== undefined) checkAbi(issues, config.eventsAbi, `${path}.eventsAbi`);
+
+  FEE_FIELDS.forEach(field => {
+    if (config[field] !== undefined && !isIntegerString(config[field])) add(issues, `${path}.${field}`, 'must be an integer string in wei');
+  });
+  if (config.txType !== undefined && config.txType !== 'eip1559' && config.txType !== 'legacy') {
+    add(issues, `${path}.txType`, 'must be "eip1559" or "legacy"');
+  }
+  if (config.gasMultiplier !== undefined && !(typeof config.gasMultiplier === 'number' && config.gasMultiplier > 0)) {
+    add(issues, `${path}.gasMultiplier`, 'must be a positive number');
+  }
+
+  if (config.readOnly !== undefined && typeof config.readOnly !== 'boolean') {
+    add(issues, `${path}.readOnly`, 'must be true or false');
+  }
+  if (config.watch !== undefined) {
+    const watch = config.watch;
+    if (!isObject(watch)) {
+      add(issues, `${path}.watch`, 'must be an object');
+    } else {
+      if (!config.readOnly) add(issues, `${path}.watch`, 'only read-only buttons can be watched');
+      ['intervalSec', 'decimals', 'precision'].forEach(field => {
+        if (watch[field] !== undefined && !(Number.isInteger(watch[field]) && watch[field] >= 0)) {
+          add(issues, `${path}.watch.${field}`, 'must be a non-negative integer');
+        }
+      });
+      if (watch.everyBlock !== undefined && typeof watch.everyBlock !== 'boolean') add(issues, `${path}.watch.everyBlock`, 'must be true or false');
+      if (watch.suffix !== undefined && typeof watch.suffix !== 'string') add(issues, `${path}.watch.suffix`, 'must be a string');
+    }
+  }
+
+  if (config.deployMode !== undefined) {
+    if (config.deployMode !== 'create' && config.deployMode !== 'create2') add(issues, `${path}.deployMode`, 'must be "create" or "create2"');
+    else if (!isDeploy) add(issues, `${path}.deployMode`, 'only applies to deployments (address "")');
+  }
+  if (typeof config.salt === 'string') {
+    const error = getPlaceholderError(config.salt);
+    if (error) add(issues, `${path}.salt`, error);
+  }
+
+  if (config.token !== undefined) checkAddress(issues, config.token, `${path}.token`);
+  if (config.requiresApproval !== undefined) {
+    const approval = config.requiresApproval;
+    if (!isObject(approval)) {
+      add(issues, `${path}.requiresApproval`, 'must be an object');
+    } else {
+      checkAddress(issues, approval.token, `${path}.requiresApproval.token`);
+      checkAddress(issues, approval.spender, `${path}.requiresApproval.spender`);
+      if (typeof approval.amount !== 'string') add(issues, `${path}.requiresApproval.amount`, 'must be a string');
+    }
+  }
+
+  if (config.nativeCurrency !== undefined) {
+    const currency = config.nativeCurrency;
+    if (!isObject(currency) || typeof currency.name !== 'string' || typeof currency.symbol !== 'string' || !Number.isInteger(currency.decimals)) {
+      add(issues, `${path}.nativeCurrency`, 'must have "name", "symbol" and integer "decimals"');
+    }
+  }
+  (['rpcUrls', 'blockExplorerUrls'] as const).forEach(field => {
+    if (config[field] !== undefined && !(Array.isArray(config[field]) && config[field].every((url: unknown) => typeof url === 'string'))) {
+      add(issues, `${path}.${field}`, 'must be an array of URLs');
+    }
+  });
+};
+
+// Validates a single button config stored under 'key'.
+export const validateButtonConfig = (key: string, config: unknown): ValidationIssue[] => {
+  const issues: Issues = [];
+  checkButton(issues, config, key);
+  return issues;
+};
+
+// Validates every button of a settings object.
+export const validateSettings = (settings: unknown): ValidationIssue[] => {
+  if (!isObject(settings)) {
+    return [{ path: '', message: 'settings must be an object of buttons' }];
+  }
+  const issues: Issues = [];
+  Object.entries(settings).forEach(([key, config]) => checkButton(issues, config, key));
+  return issues;
+};
+
+export const formatValidationIssue = ({ path, message }: ValidationIssue) => (path ? `${path}: ${message}` : message);
+
+// Checks that every profile maps button keys to true or false.
+const validateProfileVisibility = (visibility: unknown): ValidationIssue[] => {
+  if (!isObject(visibility)) {
+    return [{ path: '', message: 'profile visibility must be an object of profiles' }];
+  }
+  const issues: Issues = [];
+  Object.entries(visibility).forEach(([profileName, buttons]) => {
+    if (!isObject(buttons)) {
+      add(issues, profileName, 'must be an object of button keys');
+      return;
+    }
+    Object.entries(buttons).forEach(([key, visible]) => {
+      if (typeof visible !== 'boolean') add(issues, `${profileName}.${key}`, 'must be true or false');
+    });
+  });
+  return issues;
+};
+
+// Joins the first few issues into one message, for notifications.
+export const formatValidationIssues = (issues: ValidationIssue[], limit = 3): string => {
+  const shown = issues.slice(0, limit).map(formatValidationIssue).join('; ');
+  return issues.length > limit ? `${shown} (and ${issues.length - limit} more)` : shown;
+};
+
+// Throws an error listing the issues if the settings are invalid.
+export const assertValidSettings = (settings: unknown): Settings => {
+  const issues = validateSettings(settings);
+  if (issues.length > 0) throw new Error(formatValidationIssues(issues));
+  return settings as Settings;
+};
+
+// Throws an error listing the issues if the profile visibility is invalid.
+export const assertValidProfileVisibility = (visibility: unknown): ProfileVisibility => {
+  const issues = validateProfileVisibility(visibility);
+  if (issues.length > 0) throw new Error(`Profile visibility: ${formatValidationIssues(issues)}`);
+  return visibility as ProfileVisibility;
+};